@@ -0,0 +1,8 @@
+/**
+ * Plugin API. Parser/writer plugins default export classes extending `Parser`/`Writer`
+ */
+export { apiVersion, Parser, Writer } from './types';
+export { defineConfig } from './config';
+export type { Config } from './config';
+export { modelVersion } from './model';
+export type { Model } from './model';
@@ -0,0 +1,444 @@
+export interface Config<
+  T extends Config.Input = Config.Input,
+  U extends Config.Output = Config.Output,
+> {
+  /**
+   * Input config
+   */
+  input: T;
+  /**
+   * Output config
+   */
+  output: U;
+  /**
+   * Paths of base configs(relative to this config file) which this config is deep merged into, in order.
+   * Objects are merged, and other values including arrays are replaced
+   */
+  extends?: string | string[];
+}
+
+/**
+ * Type helper of `node2api.config.{ts,js,mjs}`
+ */
+export function defineConfig<T extends Config | Config[]>(config: T): T {
+  return config;
+}
+export namespace Config {
+  export type Input =
+    | NestjsInput
+    | ExpressInput
+    | RoutingControllersInput
+    | ModelInput
+    | PluginInput;
+  export interface SourceInput {
+    /**
+     * How types to emit are collected. Defaults to `globs`.
+     * - `globs`: every exported declaration in `types`
+     * - `reachable`: declarations referenced by requests(parameters and responses), followed recursively across the project and type packages. `types` is ignored
+     */
+    typeResolution?: 'globs' | 'reachable';
+    /**
+     * tsconfig file(e.g. `./apps/api/tsconfig.json`) of the server. Its compiler options and `paths` are used to resolve imports,
+     * and packages of its project `references` are resolved to their sources. Files are still only loaded from `sources` and `types`
+     */
+    tsconfig?: string;
+  }
+  export interface NestjsInput extends SourceInput {
+    /**
+     * Input parser type
+     */
+    parser: 'nestjs';
+    /**
+     * Source files including controllers. Globs are allowed
+     */
+    sources: string | string[];
+    /**
+     * Source files including dto/entity or any classes/interfaces/enums used in controllers
+     */
+    types?: string | string[];
+    /**
+     * Entry file creating the app(e.g. `./server/src/main.ts`). If specified, `app.setGlobalPrefix()` and `app.enableVersioning()` are read from it,
+     * and `RouterModule.register()` paths are read from the modules it imports
+     */
+    entry?: string;
+    /**
+     * Global prefix. Overrides `app.setGlobalPrefix()` in the entry file
+     */
+    globalPrefix?: string;
+    /**
+     * Versioning options. Overrides `app.enableVersioning()` in the entry file
+     */
+    versioning?: NestjsInput.Versioning;
+    /**
+     * Generic type wrapping responses(e.g. by a global `TransformInterceptor`). Response types are wrapped by it
+     */
+    envelope?: NestjsInput.Envelope;
+  }
+  export namespace NestjsInput {
+    export interface Envelope {
+      /**
+       * Name of the generic type, whose first type parameter is the response data(e.g. `ApiResponse` for `interface ApiResponse<T> { code: number; data: T }`).
+       * It is looked up in `sources`, `types` and `file`
+       */
+      type: string;
+      /**
+       * File declaring the type if it is not in `sources` or `types`
+       */
+      file?: string;
+      /**
+       * Dot separated path of the value the http module unwraps from the envelope(e.g. `data`). Clients receive the whole envelope if omitted
+       */
+      unwrap?: string;
+      /**
+       * Interceptors wrapping responses(e.g. `TransformInterceptor`). If specified, only requests using them globally(from the entry file)
+       * or by `@UseInterceptors()` of the controller or the method are wrapped. Otherwise all requests are wrapped
+       */
+      interceptors?: string[];
+      /**
+       * Decorators(e.g. `SkipEnvelope`) or interceptors in `@UseInterceptors()` of controllers or methods whose responses are not wrapped
+       */
+      skip?: string[];
+    }
+    export interface Versioning {
+      /**
+       * URI versions are prepended to request urls. Header and media type versions are sent as request headers.
+       * Custom versioning is ignored
+       */
+      type: 'uri' | 'header' | 'media-type' | 'custom';
+      /**
+       * URI version prefix. Defaults to `v`
+       */
+      prefix?: string | false;
+      /**
+       * Header name for header versioning
+       */
+      header?: string;
+      /**
+       * Media type parameter for media type versioning(e.g. `v=`)
+       */
+      key?: string;
+      /**
+       * Version used by controllers/methods without versions
+       */
+      defaultVersion?: string | string[];
+    }
+  }
+  export interface ExpressInput extends SourceInput {
+    /**
+     * Input parser type
+     */
+    parser: 'express';
+    /**
+     * Source files including routers(`Router()`/`express()`) and their mounts(`app.use(prefix, router)`). Globs are allowed
+     */
+    sources: string | string[];
+    /**
+     * Source files including any classes/interfaces/enums used in routes
+     */
+    types?: string | string[];
+  }
+  export interface RoutingControllersInput extends SourceInput {
+    /**
+     * Input parser type
+     */
+    parser: 'routing-controllers';
+    /**
+     * Source files including controllers(`@JsonController()`/`@Controller()`). Globs are allowed
+     */
+    sources: string | string[];
+    /**
+     * Source files including any classes/interfaces/enums used in controllers
+     */
+    types?: string | string[];
+    /**
+     * Prefix of all routes(`routePrefix` option of `createKoaServer()`/`useKoaServer()`)
+     */
+    routePrefix?: string;
+  }
+  export interface ModelInput {
+    /**
+     * Input parser type
+     */
+    parser: 'model';
+    /**
+     * Model file emitted by `--emit-model`
+     */
+    model: string;
+  }
+  export interface PluginInput extends SourceInput {
+    /**
+     * Package name or module path(starting with `.` or `/`, relative to the working directory) of a parser plugin.
+     * Its default export must extend `Parser`
+     */
+    parser: string;
+    /**
+     * Watched source files. Globs are allowed
+     */
+    sources?: string | string[];
+    /**
+     * Watched type files. Globs are allowed
+     */
+    types?: string | string[];
+    /**
+     * Plugin options
+     */
+    [key: string]: any;
+  }
+  export type Output =
+    | AxiosOutput
+    | FetchOutput
+    | AngularOutput
+    | OpenapiOutput
+    | MswOutput
+    | PluginOutput;
+  export interface BaseOutput {
+    /**
+     * Naming of controllers and requests
+     */
+    naming?: Naming;
+    /**
+     * Only emit requests matching the filter
+     */
+    include?: Filter;
+    /**
+     * Do not emit requests matching the filter(e.g. `{ "tags": ["internal"] }`)
+     */
+    exclude?: Filter;
+  }
+  export interface Naming {
+    /**
+     * Source of controller names. `file`(default) uses the file name(`users.controller.ts` => `users`),
+     * `class` uses the class or router name without the `Controller`/`Router` suffix(`AdminUsersController` => `adminUsers`)
+     */
+    controller?: 'file' | 'class';
+    /**
+     * Casing of controller namespaces. Defaults to `upper`(`USERS`)
+     */
+    namespace?: 'upper' | 'pascal' | 'camel' | 'preserve';
+    /**
+     * Template of request names with `{verb}`, `{controller}` and `{method}`(the server method name) placeholders.
+     * Placeholders are camel cased, or pascal cased if capitalized(e.g. `{verb}{Controller}{Method}` => `getUsersList`).
+     * Defaults to `{method}`
+     */
+    operation?: string;
+  }
+  /**
+   * A request matches if it matches all specified fields, and a field matches if any of its values matches
+   */
+  export interface Filter {
+    /**
+     * Controller names(from file or class names)
+     */
+    controllers?: string[];
+    /**
+     * Url patterns, where `*` matches a path segment and `**` matches any(e.g. `/admin/**`)
+     */
+    paths?: string[];
+    /**
+     * HTTP methods
+     */
+    methods?: string[];
+    /**
+     * JSDoc tags of requests or controllers(e.g. `internal`, `sdk-ignore`)
+     */
+    tags?: string[];
+  }
+  export interface SourceOutput extends BaseOutput {
+    /**
+     * Output file path. If a single string is provided, requests and types will be written to the same file.
+     */
+    dest: AxiosOutput.Destination | AxiosOutput.DirectoryDestination | string;
+    /**
+     * Http module file path. This module must export a default http client(e.g. `export default axios.create()`).
+     * If omitted, `import axios from 'axios'` will be used instead.
+     */
+    httpModule?: string;
+    /**
+     * Add an extra options parameter with the given name to each request function if specified
+     */
+    options?: string;
+    /**
+     * Comment prepended to the output file
+     */
+    comment?: string;
+    /**
+     * Code formatting settings
+     */
+    formatSettings?: AxiosOutput.FormatSettings;
+    /**
+     * Emit zod schemas for types if specified. Requires `zod` in the client project
+     */
+    validators?: AxiosOutput.Validators;
+    /**
+     * Emit TanStack Query hooks for requests if specified. Requires `@tanstack/react-query` in the client project
+     */
+    queryHooks?: AxiosOutput.QueryHooks;
+    /**
+     * `namespace`(default) exports requests of each controller in a namespace, `flat` exports them at the top level
+     */
+    layout?: 'namespace' | 'flat';
+    /**
+     * Types as received over JSON. By default, types with `toJSON()` in declaration files(e.g. `Date`, `Buffer`) are written as its return type,
+     * `bigint` as `string`, and methods of interfaces are dropped. `false` writes server types as they are
+     */
+    wireTypes?: AxiosOutput.WireTypes | false;
+    /**
+     * Client side modules importing types declared in server packages or directories, instead of emitting them(e.g. `{ "@acme/contracts": "@acme/contracts" }`).
+     * Keys are package names(from the nearest `package.json` of declaring files) or paths relative to the working directory.
+     * Values starting with `.` are paths relative to the working directory
+     */
+    externalTypes?: Record<string, string>;
+  }
+  export interface AxiosOutput extends SourceOutput {
+    /**
+     * Output writer type
+     */
+    writer: 'axios';
+  }
+  export interface FetchOutput extends SourceOutput {
+    /**
+     * Output writer type
+     */
+    writer: 'fetch';
+    /**
+     * Fetch module file path. This module must export a default fetch implementation(e.g. `export default fetch.bind(globalThis)`).
+     * If omitted, the global `fetch` will be used instead.
+     */
+    httpModule?: string;
+    /**
+     * Url prepended to each request url. It can be changed at runtime by setting `defaults.baseUrl`
+     */
+    baseUrl?: string;
+  }
+  export interface AngularOutput extends SourceOutput {
+    /**
+     * Output writer type. Each controller is written as an injectable service using `HttpClient`.
+     * `httpModule`, `queryHooks` and `layout` are not used
+     */
+    writer: 'angular';
+  }
+  export namespace AxiosOutput {
+    export interface FormatSettings {
+      indentSize?: number;
+      semicolons?: 'ignore' | 'insert' | 'remove';
+    }
+    export interface Validators {
+      /**
+       * Schemas output file path. Defaults to the types output file
+       */
+      dest?: string;
+      /**
+       * Parse response data with schemas in request functions
+       */
+      parseResponse?: boolean;
+    }
+    export interface QueryHooks {
+      /**
+       * Invalidate queries of the same controller when a mutation succeeds
+       */
+      invalidate?: boolean;
+    }
+    export interface WireTypes {
+      /**
+       * Client types of server types by name(e.g. `{ "Types.ObjectId": "string", "Decimal": "string" }`)
+       */
+      types?: Record<string, string>;
+      /**
+       * Functions reviving response data of server types by name(e.g. `{ "Date": "(value: string) => new Date(value)" }`).
+       * These types are kept in clients
+       */
+      revivers?: Record<string, string>;
+    }
+    export interface Destination {
+      /**
+       * Requests output file path
+       */
+      requestFile: string;
+      /**
+       * Types output file path
+       */
+      typesFile: string;
+    }
+    export interface DirectoryDestination {
+      /**
+       * Output directory. Each controller is written to its own file, types are written to `types/` grouped by their source files,
+       * and `index.ts` re-exports everything. Files generated before(with the generated marker in their leading comments) which are not emitted any more are removed
+       */
+      dir: string;
+    }
+  }
+  export interface PluginOutput extends BaseOutput {
+    /**
+     * Package name or module path(starting with `.` or `/`, relative to the working directory) of a writer plugin.
+     * Its default export must extend `Writer`
+     */
+    writer: string;
+    /**
+     * Plugin options
+     */
+    [key: string]: any;
+  }
+  export interface OpenapiOutput extends BaseOutput {
+    /**
+     * Output writer type
+     */
+    writer: 'openapi';
+    /**
+     * Output file path. Files ending with `.yaml`/`.yml` are written in YAML, otherwise in JSON
+     */
+    dest: string;
+    /**
+     * Document info. Title and version are required by the specification and will be filled if omitted
+     */
+    info?: OpenapiOutput.Info;
+    /**
+     * Server list
+     */
+    servers?: OpenapiOutput.Server[];
+  }
+  export namespace OpenapiOutput {
+    export interface Info {
+      title?: string;
+      version?: string;
+      description?: string;
+    }
+    export interface Server {
+      url: string;
+      description?: string;
+    }
+  }
+  export interface MswOutput extends BaseOutput {
+    /**
+     * Output writer type. Requests are written as Mock Service Worker handlers responding with fake data
+     */
+    writer: 'msw';
+    /**
+     * Output file path
+     */
+    dest: string;
+    /**
+     * Comment prepended to the output file
+     */
+    comment?: string;
+    /**
+     * Url prepended to each handler path(e.g. `http://localhost:3000` or `*`)
+     */
+    baseUrl?: string;
+    /**
+     * Seed of fake data. Defaults to 0
+     */
+    seed?: number;
+    /**
+     * Number of items in fake arrays. Defaults to 3
+     */
+    arrayLength?: number;
+    /**
+     * Directory of response overrides. `<fixtures>/<controller>/<request>.json` is used as the response of the request if it exists
+     */
+    fixtures?: string;
+    /**
+     * Types as received over JSON, the same as `wireTypes` of the client output so that fake data matches generated types
+     */
+    wireTypes?: AxiosOutput.WireTypes | false;
+  }
+}
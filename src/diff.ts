@@ -0,0 +1,664 @@
+import {
+  ClassDeclaration,
+  EnumDeclaration,
+  InterfaceDeclaration,
+  Node,
+  Project,
+  SourceFile,
+  SymbolFlags,
+  SyntaxKind,
+  ts,
+  Type,
+  TypeAliasDeclaration,
+  TypeFormatFlags,
+} from 'ts-morph';
+import { Model } from './model';
+import { joinPaths } from './parsers/utils';
+
+/**
+ * Change of an endpoint or a type between two models
+ */
+export interface Change {
+  /**
+   * Endpoint(e.g. `GET /users/:id`) or type name
+   */
+  subject: string;
+  message: string;
+  /**
+   * If clients built against the base version may fail
+   */
+  breaking: boolean;
+}
+
+export type ChangeFormat = 'text' | 'json' | 'markdown';
+
+interface Field {
+  name: string;
+  type: string;
+  optional: boolean;
+}
+
+/**
+ * Compared structure of a type: members of an enum or literal union, fields of an object type, or the type text
+ */
+type Shape = { text: string } & (
+  | { kind: 'members'; members: Map<string, string> }
+  | { kind: 'fields'; fields: Field[] }
+  | { kind: 'type' }
+);
+
+/**
+ * Which side of requests a type is used on. Removed fields break outputs and new required fields break inputs
+ */
+type Usage = 'input' | 'output' | 'both';
+
+interface Endpoint {
+  /**
+   * e.g. `GET /users/:id`
+   */
+  label: string;
+  /**
+   * Client method, e.g. `users.get`
+   */
+  client: string;
+  request: Model.Request;
+}
+
+/**
+ * Request fields compared for each endpoint, with names used in messages
+ */
+const RequestFields = [
+  ['query', 'query', 'query parameter'],
+  ['data', 'body', 'body field'],
+  ['headerParams', 'headers', 'header'],
+] as const;
+
+/**
+ * Compare endpoints and types of a base model with a newer one
+ */
+export function diffModels(base: Model, head: Model): Change[] {
+  return new ModelDiff(base, head).compare();
+}
+
+/**
+ * Format changes as text, JSON, or markdown(e.g. for pull request comments)
+ */
+export function formatChanges(changes: Change[], format: ChangeFormat): string {
+  if (format === 'json') {
+    return JSON.stringify(changes, null, 2) + '\n';
+  }
+  if (!changes.length) {
+    return 'No API changes\n';
+  }
+  const lines: string[] = [];
+  for (const [title, list] of [
+    ['Breaking changes', changes.filter((e) => e.breaking)],
+    ['Non-breaking changes', changes.filter((e) => !e.breaking)],
+  ] as const) {
+    if (!list.length) {
+      continue;
+    }
+    if (format === 'markdown') {
+      lines.push(
+        `### ${title}`,
+        '',
+        ...list.map((e) => `- \`${e.subject}\`: ${e.message}`),
+        '',
+      );
+    } else {
+      lines.push(
+        `${title}(${list.length}):`,
+        ...list.map((e) => `  ${e.subject}: ${e.message}`),
+        '',
+      );
+    }
+  }
+  return lines.join('\n');
+}
+
+class ModelDiff {
+  private readonly changes: Change[] = [];
+  private readonly baseTypes: ModelTypes;
+  private readonly headTypes: ModelTypes;
+  private readonly usages = new Map<string, Usage>();
+
+  constructor(private readonly base: Model, private readonly head: Model) {
+    this.baseTypes = new ModelTypes(base);
+    this.headTypes = new ModelTypes(head);
+    this.addUsages(base, this.baseTypes);
+    this.addUsages(head, this.headTypes);
+  }
+
+  compare(): Change[] {
+    const baseEndpoints = getEndpoints(this.base);
+    const headEndpoints = getEndpoints(this.head);
+    for (const [key, endpoint] of baseEndpoints) {
+      const head = headEndpoints.get(key);
+      if (head) {
+        this.compareEndpoint(endpoint, head);
+      } else {
+        this.add(endpoint.label, 'endpoint removed', true);
+      }
+    }
+    for (const [key, endpoint] of headEndpoints) {
+      if (!baseEndpoints.has(key)) {
+        this.add(endpoint.label, 'endpoint added', false);
+      }
+    }
+
+    // types declared in several files are emitted once
+    const baseNames = new Set(this.base.types.map((e) => e.name));
+    const headNames = new Set(this.head.types.map((e) => e.name));
+    for (const name of baseNames) {
+      if (!headNames.has(name)) {
+        // clients only break on what endpoints send and receive
+        this.add(name, 'type removed', false);
+        continue;
+      }
+      this.compareShapes(
+        name,
+        '',
+        this.baseTypes.getDeclarationShape(name),
+        this.headTypes.getDeclarationShape(name),
+        this.usages.get(name) ?? 'output',
+      );
+    }
+    for (const name of headNames) {
+      if (!baseNames.has(name)) {
+        this.add(name, 'type added', false);
+      }
+    }
+    return this.changes;
+  }
+
+  protected compareEndpoint(base: Endpoint, head: Endpoint): void {
+    const subject = head.label;
+    if (base.client !== head.client) {
+      this.add(
+        subject,
+        `client method renamed from \`${base.client}\` to \`${head.client}\``,
+        false,
+      );
+    }
+    for (const [key, name, field] of RequestFields) {
+      this.compareParameters(
+        subject,
+        name,
+        field,
+        base.request[key],
+        head.request[key],
+      );
+    }
+    this.compareFields(
+      subject,
+      'file',
+      getPartialFields(base.request.files ?? []),
+      getPartialFields(head.request.files ?? []),
+      'input',
+    );
+    if (normalize(base.request.res) !== normalize(head.request.res)) {
+      this.compareShapes(
+        subject,
+        'response',
+        this.baseTypes.getShape(base.request.res),
+        this.headTypes.getShape(head.request.res),
+        'output',
+      );
+    }
+    const baseGroups = (base.request.groups ?? []).join(', ');
+    const headGroups = (head.request.groups ?? []).join(', ');
+    if (baseGroups !== headGroups) {
+      this.add(
+        subject,
+        `response serialization groups changed from [${baseGroups}] to [${headGroups}]`,
+        true,
+      );
+    }
+    if (!base.request.sse !== !head.request.sse) {
+      this.add(
+        subject,
+        head.request.sse
+          ? 'response is now a server-sent event stream'
+          : 'response is no longer a server-sent event stream',
+        true,
+      );
+    }
+  }
+
+  /**
+   * Compare parameters injected as a whole or by properties. A whole parameter of the same type is compared with the type itself
+   */
+  protected compareParameters(
+    subject: string,
+    name: string,
+    field: string,
+    base: Model.Parameter | Model.PartialParameter[] | undefined,
+    head: Model.Parameter | Model.PartialParameter[] | undefined,
+  ): void {
+    if (
+      base &&
+      head &&
+      !Array.isArray(base) &&
+      !Array.isArray(head) &&
+      normalize(base.type) === normalize(head.type)
+    ) {
+      if (base.optional && !head.optional) {
+        this.add(subject, `${name} is now required`, true);
+      }
+      return;
+    }
+    const baseShape = this.getParameterShape(base, this.baseTypes);
+    const headShape = this.getParameterShape(head, this.headTypes);
+    if (!base && head && headShape.kind !== 'fields') {
+      this.add(
+        subject,
+        `${name} added`,
+        !Array.isArray(head) && !head.optional,
+      );
+      return;
+    }
+    if (base && !head && baseShape.kind !== 'fields') {
+      this.add(subject, `${name} removed`, false);
+      return;
+    }
+    this.compareShapes(subject, name, baseShape, headShape, 'input', field);
+  }
+
+  protected getParameterShape(
+    parameter: Model.Parameter | Model.PartialParameter[] | undefined,
+    types: ModelTypes,
+  ): Shape {
+    if (!Array.isArray(parameter)) {
+      return parameter
+        ? types.getShape(parameter.type)
+        : { kind: 'fields', fields: [], text: '{}' };
+    }
+    const fields = getPartialFields(parameter);
+    return {
+      kind: 'fields',
+      fields,
+      text: `{ ${fields
+        .map((e) => `${e.name}${e.optional ? '?' : ''}: ${e.type};`)
+        .join(' ')} }`,
+    };
+  }
+
+  /**
+   * @param name Name of the compared type in messages, e.g. `response`. Empty for named types
+   * @param field Name of fields in messages. Defaults to `<name> field`
+   */
+  protected compareShapes(
+    subject: string,
+    name: string,
+    base: Shape,
+    head: Shape,
+    usage: Usage,
+    field = name ? `${name} field` : 'field',
+  ): void {
+    if (base.kind === 'fields' && head.kind === 'fields') {
+      this.compareFields(subject, field, base.fields, head.fields, usage);
+    } else if (base.kind === 'members' && head.kind === 'members') {
+      const member = name ? `${name} member` : 'member';
+      for (const [key, value] of base.members) {
+        if (!head.members.has(key)) {
+          this.add(subject, `${member} \`${key}\` removed`, true);
+        } else if (head.members.get(key) !== value) {
+          this.add(
+            subject,
+            `${member} \`${key}\` value changed from \`${value}\` to \`${head.members.get(
+              key,
+            )}\``,
+            true,
+          );
+        }
+      }
+      for (const key of head.members.keys()) {
+        if (!base.members.has(key)) {
+          this.add(subject, `${member} \`${key}\` added`, false);
+        }
+      }
+    } else {
+      if (normalize(base.text) !== normalize(head.text)) {
+        this.add(
+          subject,
+          `${name || 'type'} changed from \`${base.text}\` to \`${head.text}\``,
+          true,
+        );
+      }
+    }
+  }
+
+  /**
+   * A removed field and an added field of the same type are reported as renamed
+   */
+  protected compareFields(
+    subject: string,
+    field: string,
+    base: Field[],
+    head: Field[],
+    usage: Usage,
+  ): void {
+    const added = head.filter((e) => !base.some((f) => f.name === e.name));
+    for (const prev of base) {
+      const next = head.find((e) => e.name === prev.name);
+      if (!next) {
+        const index = added.findIndex(
+          (e) => normalize(e.type) === normalize(prev.type),
+        );
+        if (index >= 0) {
+          const [renamed] = added.splice(index, 1);
+          this.add(
+            subject,
+            `${field} \`${prev.name}\` renamed to \`${renamed.name}\``,
+            true,
+          );
+        } else {
+          this.add(
+            subject,
+            `${field} \`${prev.name}\` removed`,
+            usage !== 'input',
+          );
+        }
+        continue;
+      }
+      if (normalize(prev.type) !== normalize(next.type)) {
+        this.add(
+          subject,
+          `${field} \`${prev.name}\` type changed from \`${prev.type}\` to \`${next.type}\``,
+          true,
+        );
+      }
+      if (!prev.optional && next.optional) {
+        this.add(
+          subject,
+          `${field} \`${prev.name}\` is now optional`,
+          usage !== 'input',
+        );
+      } else if (prev.optional && !next.optional) {
+        this.add(
+          subject,
+          `${field} \`${prev.name}\` is now required`,
+          usage !== 'output',
+        );
+      }
+    }
+    for (const next of added) {
+      const required = !next.optional && usage !== 'output';
+      this.add(
+        subject,
+        `${required ? 'required ' : ''}${field} \`${next.name}\` added`,
+        required,
+      );
+    }
+  }
+
+  /**
+   * Mark types referenced by request parameters as inputs and by responses as outputs, following references between types
+   */
+  protected addUsages(model: Model, types: ModelTypes): void {
+    const names = new Set(model.types.map((e) => e.name));
+    const visit = (references: string[], usage: Usage) => {
+      for (const name of references) {
+        const current = this.usages.get(name);
+        if (!names.has(name) || current === usage || current === 'both') {
+          continue;
+        }
+        this.usages.set(name, current ? 'both' : usage);
+        visit(types.getReferences(name), usage);
+      }
+    };
+    for (const controller of model.controllers) {
+      for (const request of controller.requests) {
+        for (const group of [
+          request.params,
+          request.query,
+          request.data,
+          request.headerParams,
+        ]) {
+          for (const parameter of getParameters(group)) {
+            visit(getIdentifiers(parameter.type), 'input');
+          }
+        }
+        visit(getIdentifiers(request.res), 'output');
+      }
+    }
+  }
+
+  protected add(subject: string, message: string, breaking: boolean): void {
+    this.changes.push({ subject, message, breaking });
+  }
+}
+
+/**
+ * Types of a model declared in an in-memory source file, like the `model` parser does
+ */
+class ModelTypes {
+  private readonly src: SourceFile;
+
+  constructor(model: Model) {
+    const project = new Project({
+      useInMemoryFileSystem: true,
+      compilerOptions: { strictNullChecks: true },
+    });
+    this.src = project.createSourceFile(
+      'model.ts',
+      model.types.map((e) => e.source).join('\n\n'),
+    );
+    // shadow globals of the same names
+    this.src.addTypeAliases(
+      (model.externals ?? []).map((name) => ({ name, type: 'any' })),
+    );
+  }
+
+  getDeclarationShape(name: string): Shape {
+    const decl = this.getDeclaration(name);
+    if (!decl) {
+      return { kind: 'type', text: name };
+    }
+    if (Node.isEnumDeclaration(decl)) {
+      return getEnumShape(decl, name);
+    }
+    if (Node.isTypeAliasDeclaration(decl)) {
+      return this.getAliasShape(decl);
+    }
+    return this.getTypeShape(decl.getType(), name);
+  }
+
+  /**
+   * Names of types referenced by a declaration, including base types
+   */
+  getReferences(name: string): string[] {
+    const decl = this.getDeclaration(name);
+    if (!decl) {
+      return [];
+    }
+    return [
+      ...decl
+        .getDescendantsOfKind(SyntaxKind.TypeReference)
+        .map((e) => e.getTypeName().getText()),
+      ...decl
+        .getDescendantsOfKind(SyntaxKind.ExpressionWithTypeArguments)
+        .map((e) => e.getExpression().getText()),
+    ].map((e) => e.split('.')[0]);
+  }
+
+  /**
+   * Get the shape of a type text, e.g. a response type
+   */
+  getShape(text: string): Shape {
+    const alias = this.src.addTypeAlias({
+      name: '__node2api_diff__',
+      type: text,
+    });
+    try {
+      return this.getAliasShape(alias);
+    } finally {
+      alias.remove();
+    }
+  }
+
+  protected getDeclaration(
+    name: string,
+  ):
+    | EnumDeclaration
+    | InterfaceDeclaration
+    | ClassDeclaration
+    | TypeAliasDeclaration
+    | undefined {
+    return (
+      this.src.getEnum(name) ??
+      this.src.getInterface(name) ??
+      this.src.getClass(name) ??
+      this.src.getTypeAlias(name)
+    );
+  }
+
+  /**
+   * Enums are found from the referenced declaration, since the type of an enum with a single member is the member
+   */
+  protected getAliasShape(alias: TypeAliasDeclaration): Shape {
+    const typeNode = alias.getTypeNodeOrThrow();
+    const enumDecl = typeNode
+      .asKind(SyntaxKind.TypeReference)
+      ?.getTypeName()
+      .getSymbol()
+      ?.getDeclarations()
+      .find((e): e is EnumDeclaration => Node.isEnumDeclaration(e));
+    return enumDecl
+      ? getEnumShape(enumDecl, typeNode.getText())
+      : this.getTypeShape(alias.getType(), typeNode.getText());
+  }
+
+  protected getTypeShape(type: Type, text: string): Shape {
+    if (type.isUnion() && type.getUnionTypes().every((e) => e.isLiteral())) {
+      const members = type
+        .getUnionTypes()
+        .map((e) => e.getText(this.src, TypeFormatFlags.None));
+      return {
+        kind: 'members',
+        members: new Map(members.map((e) => [e, e])),
+        text,
+      };
+    }
+    if (!this.isObjectType(type)) {
+      return { kind: 'type', text };
+    }
+    const fields: Field[] = [];
+    for (const prop of type.getProperties()) {
+      const decl = prop.getValueDeclaration();
+      if (
+        Node.isMethodDeclaration(decl) ||
+        Node.isMethodSignature(decl) ||
+        prop.hasFlags(SymbolFlags.Method)
+      ) {
+        continue;
+      }
+      const typeNode =
+        Node.isPropertyDeclaration(decl) || Node.isPropertySignature(decl)
+          ? decl.getTypeNode()
+          : undefined;
+      fields.push({
+        name: prop.getName(),
+        type:
+          typeNode?.getText() ??
+          prop
+            .getTypeAtLocation(this.src)
+            .getText(this.src, TypeFormatFlags.None),
+        optional: prop.hasFlags(SymbolFlags.Optional),
+      });
+    }
+    return { kind: 'fields', fields, text };
+  }
+
+  /**
+   * Object types declared in the model, including mapped and intersection types. Arrays and library types(e.g. `Date`) are compared as text
+   */
+  protected isObjectType(type: Type): boolean {
+    if (type.isIntersection()) {
+      return type.getIntersectionTypes().every((e) => this.isObjectType(e));
+    }
+    if (
+      !type.isObject() ||
+      type.isArray() ||
+      type.isTuple() ||
+      type.getCallSignatures().length
+    ) {
+      return false;
+    }
+    if (type.getObjectFlags() & ts.ObjectFlags.Mapped) {
+      return true;
+    }
+    return !(type.getSymbol()?.getDeclarations() ?? []).some((e) =>
+      e.getSourceFile().isDeclarationFile(),
+    );
+  }
+}
+
+function getEnumShape(decl: EnumDeclaration, text: string): Shape {
+  return {
+    text,
+    kind: 'members',
+    members: new Map(
+      decl
+        .getMembers()
+        .map((e) => [e.getName(), JSON.stringify(e.getValue()) ?? '']),
+    ),
+  };
+}
+
+/**
+ * Endpoints by method and path. Names of path parameters do not matter to clients
+ */
+function getEndpoints(model: Model): Map<string, Endpoint> {
+  const endpoints = new Map<string, Endpoint>();
+  for (const controller of model.controllers) {
+    for (const request of controller.requests) {
+      const path = joinPaths(
+        '/',
+        request.baseUrl ?? controller.baseUrl,
+        request.url,
+      ).replace(/(.)\/$/, '$1');
+      const label = `${request.method.toUpperCase()} ${path}`;
+      const key = label.replace(/:\w+/g, ':');
+      if (!endpoints.has(key)) {
+        endpoints.set(key, {
+          label,
+          client: `${controller.name}.${request.name}`,
+          request,
+        });
+      }
+    }
+  }
+  return endpoints;
+}
+
+function getParameters(
+  group: Model.Parameter | Model.PartialParameter[] | undefined,
+): Model.Parameter[] {
+  if (!group) {
+    return [];
+  }
+  return Array.isArray(group) ? group.map((e) => e.parameter) : [group];
+}
+
+/**
+ * Identifiers in a type text, to find referenced types
+ */
+function getIdentifiers(text: string): string[] {
+  return text.match(/[A-Za-z_$][\w$]*/g) ?? [];
+}
+
+function getPartialFields(partials: Model.PartialParameter[]): Field[] {
+  return partials.map(({ property, parameter }) => ({
+    name: property,
+    type: parameter.type,
+    optional: !!parameter.optional,
+  }));
+}
+
+/**
+ * Type text compared between versions, ignoring formatting
+ */
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
@@ -1,9 +1,25 @@
 #!/usr/bin/env node
-import { existsSync, readFileSync } from 'fs';
-import { resolve } from 'path';
+import { watch } from 'chokidar';
+import { execFileSync } from 'child_process';
+import { createTwoFilesPatch } from 'diff';
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  symlinkSync,
+  writeFileSync,
+} from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join, relative, resolve } from 'path';
 import { hideBin } from 'yargs/helpers';
 import yargs from 'yargs/yargs';
 import { Config } from './config';
+import { ChangeFormat, diffModels, formatChanges } from './diff';
+import { init } from './init';
+import { ConfigFiles, loadConfig } from './loader';
+import { createModel, Model, readModel } from './model';
 import { Parser, Writer } from './types';
 
 yargs(hideBin(process.argv))
@@ -17,50 +33,353 @@ yargs(hideBin(process.argv))
     type: 'boolean',
     desc: 'Emit output to stdout instead of to files',
   })
+  .option('watch', {
+    alias: 'w',
+    type: 'boolean',
+    desc: 'Watch source files and emit again on changes',
+  })
+  .option('check', {
+    type: 'boolean',
+    desc: 'Print differences between emitted output and existing files, and exit with code 1 if there are any',
+  })
+  .option('emit-model', {
+    type: 'string',
+    desc: 'Write parsed controllers and types to a JSON model file instead of emitting output',
+  })
+  .conflicts('check', ['stream', 'watch'])
+  .conflicts('emit-model', ['check', 'watch'])
   .command('$0', 'Parse and emit client sdk from nodejs project', () => {}, run)
+  .command(
+    'init',
+    'Create a config file by detecting the server framework',
+    {
+      yes: {
+        alias: 'y',
+        type: 'boolean',
+        desc: 'Use suggested values without asking',
+      },
+    },
+    init,
+  )
+  .command(
+    'diff',
+    'Compare endpoints and types with a baseline and report breaking changes',
+    {
+      base: {
+        type: 'string',
+        demandOption: true,
+        desc: 'Git ref or model file written by --emit-model to compare with',
+      },
+      format: {
+        choices: ['text', 'json', 'markdown'] as const,
+        default: 'text' as const,
+        desc: 'Output format',
+      },
+      'fail-on-breaking': {
+        type: 'boolean',
+        desc: 'Exit with code 1 if there are breaking changes',
+      },
+    },
+    diff,
+  )
   .parse();
 
 interface Options {
   config?: string;
   stream?: boolean;
+  watch?: boolean;
+  check?: boolean;
+  emitModel?: string;
   verbose?: boolean;
 }
-async function run({ config, stream }: Options) {
-  const configPath = config ? config : resolve(process.cwd(), 'node2api.json');
-  if (!existsSync(configPath)) {
-    throw new Error(`Config file not found at path "${configPath}"`);
-  }
-  const configContent = readFileSync(configPath, 'utf-8');
-  let configData: Config | Config[];
-  try {
-    configData = JSON.parse(configContent);
-  } catch (error) {
-    throw new Error('Invalid config content');
-  }
-  if (Array.isArray(configData)) {
+async function run({ config, stream, watch, check, emitModel }: Options) {
+  const configData = await loadConfig(config);
+  if (emitModel !== undefined) {
+    const configs = Array.isArray(configData) ? configData : [configData];
+    await emitModelTask(configs, emitModel, stream);
+  } else if (check) {
+    const configs = Array.isArray(configData) ? configData : [configData];
+    const results = await Promise.all(configs.map((e) => checkTask(e)));
+    if (results.includes(false)) {
+      process.exitCode = 1;
+    }
+  } else if (watch) {
+    const configs = Array.isArray(configData) ? configData : [configData];
+    await Promise.all(configs.map((e) => watchTask(e, stream)));
+  } else if (Array.isArray(configData)) {
     await Promise.all(configData.map((e) => runTask(e, stream)));
   } else {
     runTask(configData, stream);
   }
 }
 
+interface DiffOptions {
+  config?: string;
+  base: string;
+  format: ChangeFormat;
+  failOnBreaking?: boolean;
+}
+async function diff({ config, base, format, failOnBreaking }: DiffOptions) {
+  const configData = await loadConfig(config);
+  const head = await loadModel(
+    Array.isArray(configData) ? configData : [configData],
+  );
+  const changes = diffModels(
+    existsSync(base) ? readModel(base) : getRevisionModel(base, config),
+    head,
+  );
+  process.stdout.write(formatChanges(changes, format));
+  if (failOnBreaking && changes.some((e) => e.breaking)) {
+    process.exitCode = 1;
+  }
+}
+
 async function runTask(config: Config, stream?: boolean) {
-  let parser: Parser;
-  let writer: Writer;
-  const { input, output } = config;
+  const { writer } = await createTask(config);
+  writer.write(stream);
+}
+
+/**
+ * Write the model of the input. All configs in batch mode must have the same input
+ */
+async function emitModelTask(
+  configs: Config[],
+  path: string,
+  stream?: boolean,
+) {
+  const content = JSON.stringify(await loadModel(configs), null, 2) + '\n';
+  if (stream) {
+    process.stdout.write(content);
+  } else {
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, content);
+  }
+}
+
+/**
+ * Create the model of the input. All configs in batch mode must have the same input
+ */
+async function loadModel(configs: Config[]): Promise<Model> {
+  if (new Set(configs.map((e) => JSON.stringify(e.input))).size > 1) {
+    throw new Error('All configs must have the same input to emit a model');
+  }
+  return createModel(await createParser(configs[0].input));
+}
+
+/**
+ * Create the model of a git revision by running `--emit-model` in a temporary worktree.
+ * The current config is used, and dependencies are linked from the working tree since they are not committed
+ */
+function getRevisionModel(ref: string, config?: string): Model {
+  const git = (...args: string[]) =>
+    execFileSync('git', args, { encoding: 'utf-8' }).trim();
+  const root = git('rev-parse', '--show-toplevel');
+  // working directory relative to the root, e.g. `packages/server/`
+  const prefix = git('rev-parse', '--show-prefix');
+  const configPath = config
+    ? resolve(config)
+    : ConfigFiles.map((e) => resolve(e)).find((e) => existsSync(e));
+  const dir = mkdtempSync(join(tmpdir(), 'node2api-'));
+  try {
+    git('worktree', 'add', '--detach', '--quiet', dir, ref);
+  } catch (error) {
+    rmSync(dir, { recursive: true, force: true });
+    throw new Error(`Baseline "${ref}" is neither a model file nor a git ref`);
+  }
+  try {
+    const cwd = join(dir, prefix);
+    for (const [modules, target] of [
+      [join(root, 'node_modules'), join(dir, 'node_modules')],
+      [resolve('node_modules'), join(cwd, 'node_modules')],
+    ]) {
+      if (existsSync(modules) && !existsSync(target)) {
+        symlinkSync(modules, target, 'junction');
+      }
+    }
+    const content = execFileSync(
+      process.execPath,
+      [process.argv[1], '--config', configPath, '--emit-model', '-', '-s'],
+      {
+        cwd,
+        encoding: 'utf-8',
+        maxBuffer: 1024 * 1024 * 1024,
+        stdio: ['ignore', 'pipe', 'inherit'],
+      },
+    );
+    return JSON.parse(content);
+  } finally {
+    git('worktree', 'remove', '--force', dir);
+  }
+}
+
+/**
+ * Compare emitted output with existing files and print unified diffs
+ * @returns If the existing files are up to date
+ */
+async function checkTask(config: Config): Promise<boolean> {
+  const { writer } = await createTask(config);
+  let upToDate = true;
+  for (const file of writer.emit()) {
+    const path = relative(process.cwd(), file.path);
+    const current = existsSync(file.path)
+      ? readFileSync(file.path, 'utf-8')
+      : '';
+    // removed files are compared as empty
+    if (current === (file.content ?? '')) {
+      continue;
+    }
+    upToDate = false;
+    process.stdout.write(
+      createTwoFilesPatch(path, path, current, file.content ?? ''),
+    );
+  }
+  return upToDate;
+}
+
+/**
+ * Emit once and emit again when files matching `input.sources` or `input.types`(or the model file) change.
+ * The parser is reused between runs so that only changed files are reloaded
+ */
+async function watchTask(config: Config, stream?: boolean) {
+  const { parser, writer } = await createTask(config);
+  const emit = () => {
+    try {
+      writer.write(stream);
+      process.stderr.write(
+        `[${new Date().toLocaleTimeString()}] emitted ${
+          config.output.writer
+        } output\n`,
+      );
+    } catch (error) {
+      // keep watching
+      console.error(error);
+    }
+  };
+  emit();
+
+  const changes = new Set<string>();
+  let timer: NodeJS.Timeout;
+  const { input } = config;
+  const globs =
+    'model' in input
+      ? [input.model]
+      : [].concat(input.sources ?? [], input.types ?? []);
+  watch(globs, { ignoreInitial: true }).on('all', (event, path) => {
+    if (event !== 'add' && event !== 'change' && event !== 'unlink') {
+      return;
+    }
+    changes.add(resolve(path));
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      const files = Array.from(changes);
+      changes.clear();
+      try {
+        parser.refresh(files);
+      } catch (error) {
+        console.error(error);
+        return;
+      }
+      emit();
+    }, 300);
+  });
+}
+
+async function createTask(config: Config) {
+  const parser = await createParser(config.input);
+  const writer = await createWriter(config.output, parser);
+  return { parser, writer };
+}
+
+async function createParser(input: Config.Input): Promise<Parser> {
   switch (input.parser) {
     case 'nestjs':
-      parser = new (await import('./parsers/nestjs')).default(input);
-      break;
+      return new (await import('./parsers/nestjs')).default(
+        input as Config.NestjsInput,
+      );
+    case 'express':
+      return new (await import('./parsers/express')).default(
+        input as Config.ExpressInput,
+      );
+    case 'routing-controllers':
+      return new (await import('./parsers/routing-controllers')).default(
+        input as Config.RoutingControllersInput,
+      );
+    case 'model':
+      return new (await import('./parsers/model')).default(
+        input as Config.ModelInput,
+      );
     default:
-      throw new Error('unknown server type');
+      return new (await loadPlugin(input.parser, Parser))(input);
   }
+}
+
+async function createWriter(
+  output: Config.Output,
+  parser: Parser,
+): Promise<Writer> {
   switch (output.writer) {
     case 'axios':
-      writer = new (await import('./writers/axios')).default(output, parser);
-      break;
+      return new (await import('./writers/axios')).default(
+        output as Config.AxiosOutput,
+        parser,
+      );
+    case 'fetch':
+      return new (await import('./writers/fetch')).default(
+        output as Config.FetchOutput,
+        parser,
+      );
+    case 'angular':
+      return new (await import('./writers/angular')).default(
+        output as Config.AngularOutput,
+        parser,
+      );
+    case 'openapi':
+      return new (await import('./writers/openapi')).default(
+        output as Config.OpenapiOutput,
+        parser,
+      );
+    case 'msw':
+      return new (await import('./writers/msw')).default(
+        output as Config.MswOutput,
+        parser,
+      );
     default:
-      throw new Error('unknown emit mode');
+      return new (await loadPlugin(output.writer, Writer))(output, parser);
   }
-  writer.write(stream);
+}
+
+/**
+ * Load the default export of a plugin module and check it is built against the same plugin API
+ * @param name Package name or module path relative to the working directory
+ * @param base Base class the plugin must extend
+ */
+async function loadPlugin<T extends typeof Parser | typeof Writer>(
+  name: string,
+  base: T,
+): Promise<new (...args: ConstructorParameters<T>) => InstanceType<T>> {
+  if (!name) {
+    throw new Error(`${base.name} type is missing`);
+  }
+  let path: string;
+  try {
+    path = /^[./]/.test(name)
+      ? require.resolve(resolve(process.cwd(), name))
+      : require.resolve(name, { paths: [process.cwd()] });
+  } catch (error) {
+    throw new Error(`${base.name} plugin "${name}" not found`);
+  }
+  const mod = await import(path);
+  const plugin = mod.default ?? mod;
+  // classes from another copy of node2api fail `instanceof`, so the API version is checked instead
+  if (typeof plugin !== 'function' || plugin.apiVersion === undefined) {
+    throw new Error(
+      `${base.name} plugin "${name}" must default export a class extending ${base.name}`,
+    );
+  }
+  if (plugin.apiVersion !== base.apiVersion) {
+    throw new Error(
+      `${base.name} plugin "${name}" is built against plugin API v${plugin.apiVersion}, but v${base.apiVersion} is installed`,
+    );
+  }
+  return plugin;
 }
@@ -0,0 +1,314 @@
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  writeFileSync,
+} from 'fs';
+import { dirname, extname, join, posix, relative } from 'path';
+import { createInterface, Interface } from 'readline';
+import { ts } from 'ts-morph';
+import { ConfigFiles } from './loader';
+
+/**
+ * Directories skipped when looking for source files
+ */
+const IgnoredDirectories = ['node_modules', 'dist', 'build', 'coverage'];
+
+const HttpModule = `import axios from 'axios';
+
+export default axios.create({
+  baseURL: '/',
+});
+`;
+
+export interface InitOptions {
+  /**
+   * Use suggested values without asking
+   */
+  yes?: boolean;
+}
+
+/**
+ * Detect the server framework and source files in the working directory, and write a commented `node2api.config.js`.
+ * Questions are only asked if there are several choices
+ */
+export async function init({ yes }: InitOptions): Promise<void> {
+  const cwd = process.cwd();
+  const existing = ConfigFiles.find((e) => existsSync(join(cwd, e)));
+  if (existing) {
+    throw new Error(`Config file "${existing}" already exists`);
+  }
+  const pkg = readJson(join(cwd, 'package.json')) ?? {};
+  const deps = { ...pkg.dependencies, ...pkg.devDependencies };
+  const prompt = new Prompt(yes);
+  try {
+    const frameworks = [
+      ...(deps['@nestjs/core'] || deps['@nestjs/common'] ? ['nestjs'] : []),
+      ...(deps['routing-controllers'] ? ['routing-controllers'] : []),
+      ...(deps['express'] ? ['express'] : []),
+    ];
+    const parser = await prompt.select(
+      'Server framework',
+      frameworks.length
+        ? frameworks
+        : ['nestjs', 'routing-controllers', 'express'],
+    );
+
+    const files = findFiles(cwd);
+    const controllers = files.filter((e) =>
+      parser !== 'express'
+        ? /\.controller\.ts$/.test(e)
+        : /\.[jt]s$/.test(e) && /\b(Router|express)\(\)/.test(readFile(e)),
+    );
+    const roots = Array.from(
+      new Set(controllers.map((e) => getRootDirectory(cwd, e))),
+    );
+    const root = await prompt.select(
+      'Source directory',
+      roots.length ? roots : getTsconfigRoots(cwd),
+    );
+    const ext = controllers.length
+      ? extname(controllers[0]).slice(1)
+      : existsSync(join(cwd, 'tsconfig.json'))
+      ? 'ts'
+      : 'js';
+    const sources =
+      parser !== 'express'
+        ? `./${root}/**/*.controller.ts`
+        : `./${root}/**/*.${ext}`;
+    // dto/entity files are only conventional with controller classes
+    const suffixes = ['dto', 'entity'].filter((suffix) =>
+      files.some(
+        (e) =>
+          parser !== 'express' &&
+          getRootDirectory(cwd, e) === root &&
+          e.endsWith(`.${suffix}.ts`),
+      ),
+    );
+    const types = suffixes.length
+      ? `./${root}/**/*.${
+          suffixes.length > 1 ? `{${suffixes.join(',')}}` : suffixes[0]
+        }.ts`
+      : undefined;
+
+    const writer = await prompt.select('Output writer', [
+      'axios',
+      'fetch',
+      'angular',
+      'openapi',
+    ]);
+    const dest = await prompt.input(
+      'Output file',
+      writer === 'openapi' ? './openapi.yaml' : './client/src/api/index.ts',
+    );
+    let httpModule: string;
+    if (writer === 'axios') {
+      const path = `./${posix.join(posix.dirname(dest), 'http.ts')}`;
+      if (existsSync(join(cwd, path))) {
+        httpModule = path;
+      } else if (
+        await prompt.confirm(`Create http module "${path}" with axios.create()`)
+      ) {
+        mkdirSync(dirname(join(cwd, path)), { recursive: true });
+        writeFileSync(join(cwd, path), HttpModule);
+        process.stdout.write(`Created ${path}\n`);
+        httpModule = path;
+      }
+    }
+
+    const content = writeConfig(
+      { parser, sources, types },
+      { writer, dest, httpModule },
+      pkg.type === 'module',
+    );
+    writeFileSync(join(cwd, 'node2api.config.js'), content);
+    process.stdout.write('Created node2api.config.js\n');
+  } finally {
+    prompt.close();
+  }
+}
+
+/**
+ * Write config with comments on each field
+ */
+function writeConfig(
+  input: { parser: string; sources: string; types?: string },
+  output: { writer: string; dest: string; httpModule?: string },
+  esm: boolean,
+): string {
+  const lines = [
+    `/** @type {import('node2api').Config} */`,
+    `${esm ? 'export default' : 'module.exports ='} {`,
+    '  input: {',
+    '    // server framework',
+    `    parser: ${quote(input.parser)},`,
+    '    // files declaring routes',
+    `    sources: [${quote(input.sources)}],`,
+  ];
+  if (input.types) {
+    lines.push(
+      '    // files declaring types used by routes',
+      `    types: [${quote(input.types)}],`,
+    );
+  } else {
+    lines.push(
+      '    // emit types referenced by routes, wherever they are declared',
+      `    typeResolution: 'reachable',`,
+    );
+  }
+  lines.push('  },', '  output: {');
+  lines.push(`    writer: ${quote(output.writer)},`);
+  lines.push(
+    output.writer === 'openapi'
+      ? '    // written in YAML if ending with `.yaml`, otherwise in JSON'
+      : '    // or `{ dir }` to write each controller to its own file',
+    `    dest: ${quote(output.dest)},`,
+  );
+  if (output.httpModule) {
+    lines.push(
+      '    // module default exporting the axios instance',
+      `    httpModule: ${quote(output.httpModule)},`,
+    );
+  }
+  if (output.writer !== 'openapi') {
+    lines.push(
+      '    // prepended to generated files',
+      `    comment: ${quote('/* eslint-disable */')},`,
+    );
+  }
+  lines.push('  },', '};', '');
+  return lines.join('\n');
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * First directory of a file relative to the working directory, or `.` for files at the top level
+ */
+function getRootDirectory(cwd: string, file: string): string {
+  const parts = relative(cwd, file).split(/[\\/]/);
+  return parts.length > 1 ? parts[0] : '.';
+}
+
+/**
+ * Source directories from `rootDir` and `include` of `tsconfig.json`. Defaults to `src`
+ */
+function getTsconfigRoots(cwd: string): string[] {
+  const path = join(cwd, 'tsconfig.json');
+  if (!existsSync(path)) {
+    return ['src'];
+  }
+  // tsconfig may contain comments
+  const { config = {} } = ts.readConfigFile(path, ts.sys.readFile);
+  const dirs = [config.compilerOptions?.rootDir, ...(config.include ?? [])]
+    .filter((e): e is string => typeof e === 'string')
+    .map((e) => e.replace(/^\.\//, '').split('/')[0])
+    .filter((e) => e && !e.includes('*'));
+  return dirs.length ? Array.from(new Set(dirs)) : ['src'];
+}
+
+function findFiles(dir: string): string[] {
+  const files: string[] = [];
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    if (entry.name.startsWith('.')) {
+      continue;
+    }
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (!IgnoredDirectories.includes(entry.name)) {
+        files.push(...findFiles(path));
+      }
+    } else if (entry.isFile() && !entry.name.endsWith('.d.ts')) {
+      files.push(path);
+    }
+  }
+  return files;
+}
+
+function readFile(path: string): string {
+  return readFileSync(path, 'utf-8');
+}
+
+function readJson(path: string): any {
+  if (!existsSync(path)) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(readFile(path));
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/**
+ * Questions on the terminal. Suggested values are used without asking with `--yes`
+ */
+class Prompt {
+  private rl?: Interface;
+  private readonly lines: string[] = [];
+  private pending?: (line: string) => void;
+  private closed = false;
+
+  constructor(private readonly yes?: boolean) {}
+
+  /**
+   * Ask to pick one of the choices if there are several. The first one is suggested
+   */
+  async select<T extends string>(message: string, choices: T[]): Promise<T> {
+    if (this.yes || choices.length === 1) {
+      return choices[0];
+    }
+    const list = choices.map((e, i) => `  ${i + 1}) ${e}`).join('\n');
+    for (;;) {
+      const answer = await this.ask(`${message}\n${list}\nSelect [1]: `);
+      const index = answer ? Number(answer) - 1 : 0;
+      if (choices[index] !== undefined) {
+        return choices[index];
+      }
+    }
+  }
+
+  async input(message: string, defaultValue: string): Promise<string> {
+    if (this.yes) {
+      return defaultValue;
+    }
+    return (await this.ask(`${message} [${defaultValue}]: `)) || defaultValue;
+  }
+
+  async confirm(message: string): Promise<boolean> {
+    if (this.yes) {
+      return true;
+    }
+    return !/^n/i.test(await this.ask(`${message}? [Y/n]: `));
+  }
+
+  close(): void {
+    this.rl?.close();
+  }
+
+  /**
+   * Lines are queued, since piped input may arrive before questions are asked. Empty after the input is closed
+   */
+  private ask(question: string): Promise<string> {
+    if (!this.rl) {
+      this.rl = createInterface({ input: process.stdin });
+      this.rl.on('line', (line) => {
+        const resolve = this.pending;
+        this.pending = undefined;
+        resolve ? resolve(line.trim()) : this.lines.push(line.trim());
+      });
+      this.rl.on('close', () => {
+        this.closed = true;
+        this.pending?.('');
+      });
+    }
+    process.stdout.write(question);
+    if (this.lines.length || this.closed) {
+      return Promise.resolve(this.lines.shift() ?? '');
+    }
+    return new Promise((resolve) => (this.pending = resolve));
+  }
+}
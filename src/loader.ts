@@ -0,0 +1,427 @@
+import { existsSync, readFileSync } from 'fs';
+import { dirname, extname, join, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { Node, Project, SymbolFlags, ts, Type } from 'ts-morph';
+import { Config } from './config';
+
+/**
+ * Config files looked up in the working directory, in order
+ */
+export const ConfigFiles = [
+  'node2api.config.ts',
+  'node2api.config.js',
+  'node2api.config.mjs',
+  'node2api.json',
+];
+
+// `import()` is compiled to `require()` in commonjs, which can not load ES modules
+const importModule = new Function('path', 'return import(path)') as (
+  path: string,
+) => Promise<any>;
+
+/**
+ * Load, merge(`extends`) and validate the config
+ * @param path Config file path. Defaults to the first one of `ConfigFiles` found in the working directory
+ */
+export async function loadConfig(path?: string): Promise<Config | Config[]> {
+  const configPath = path
+    ? resolve(path)
+    : ConfigFiles.map((e) => resolve(e)).find((e) => existsSync(e));
+  if (!configPath) {
+    throw new Error(
+      `Config file not found in "${process.cwd()}". Add one of ${ConfigFiles.join(
+        ', ',
+      )}`,
+    );
+  }
+  if (!existsSync(configPath)) {
+    throw new Error(`Config file not found at path "${configPath}"`);
+  }
+  const data = await readConfigFile(configPath);
+  const config = Array.isArray(data)
+    ? await Promise.all(data.map((e) => resolveExtends(e, configPath, [])))
+    : await resolveExtends(data, configPath, []);
+  const errors = validateConfig(config);
+  if (errors.length) {
+    throw new Error(
+      `Invalid config in "${configPath}"\n${errors
+        .map((e) => `  ${e}`)
+        .join('\n')}`,
+    );
+  }
+  return config;
+}
+
+async function readConfigFile(path: string): Promise<any> {
+  switch (extname(path)) {
+    case '.json':
+      try {
+        return JSON.parse(readFileSync(path, 'utf-8'));
+      } catch (error) {
+        throw new Error(
+          `Invalid config content in "${path}": ${error.message}`,
+        );
+      }
+    case '.ts':
+    case '.mts':
+    case '.cts':
+      return getDefaultExport(requireTs(path));
+    case '.mjs':
+      return getDefaultExport(await importModule(pathToFileURL(path).href));
+    default:
+      try {
+        return getDefaultExport(require(path));
+      } catch (error) {
+        // `.js` files in `"type": "module"` packages
+        if (error.code !== 'ERR_REQUIRE_ESM') {
+          throw error;
+        }
+        return getDefaultExport(await importModule(pathToFileURL(path).href));
+      }
+  }
+}
+
+function getDefaultExport(mod: any): any {
+  return mod.default ?? mod;
+}
+
+/**
+ * Require a typescript file. Typescript files it imports are transpiled as well
+ */
+function requireTs(path: string): any {
+  const extensions = require.extensions;
+  const previous = extensions['.ts'];
+  extensions['.ts'] = (mod: any, filename: string) => {
+    const { outputText } = ts.transpileModule(readFileSync(filename, 'utf-8'), {
+      fileName: filename,
+      compilerOptions: {
+        module: ts.ModuleKind.CommonJS,
+        target: ts.ScriptTarget.ES2020,
+        esModuleInterop: true,
+      },
+    });
+    mod._compile(outputText, filename);
+  };
+  try {
+    return require(path);
+  } finally {
+    if (previous) {
+      extensions['.ts'] = previous;
+    } else {
+      delete extensions['.ts'];
+    }
+  }
+}
+
+/**
+ * Merge the config into the configs it extends. `extends` paths are relative to the config file
+ * @param stack Files being resolved, to detect circular extends
+ */
+async function resolveExtends(
+  config: any,
+  path: string,
+  stack: string[],
+): Promise<any> {
+  if (!isPlainObject(config) || config.extends === undefined) {
+    return config;
+  }
+  const { extends: base, ...rest } = config;
+  let result: any = {};
+  for (const file of [].concat(base)) {
+    if (typeof file !== 'string') {
+      throw new Error(`"extends" in "${path}" must be a string or an array`);
+    }
+    const basePath = resolve(dirname(path), file);
+    if (stack.includes(basePath)) {
+      throw new Error(
+        `Circular extends: ${[...stack, path, basePath].join(' -> ')}`,
+      );
+    }
+    if (!existsSync(basePath)) {
+      throw new Error(
+        `Base config "${file}" extended by "${path}" is not found`,
+      );
+    }
+    const data = await readConfigFile(basePath);
+    if (!isPlainObject(data)) {
+      throw new Error(`Base config "${basePath}" must be an object`);
+    }
+    result = mergeConfig(
+      result,
+      await resolveExtends(data, basePath, [...stack, path]),
+    );
+  }
+  return mergeConfig(result, rest);
+}
+
+/**
+ * Deep merge objects. Other values(including arrays) are replaced
+ */
+function mergeConfig(base: any, override: any): any {
+  if (!isPlainObject(base) || !isPlainObject(override)) {
+    return override;
+  }
+  const result = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    result[key] = mergeConfig(base[key], value);
+  }
+  return result;
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate the config against the `Config` type read from `config.d.ts`
+ * @returns Error messages with the paths of invalid fields
+ */
+export function validateConfig(config: any): string[] {
+  // `config.ts` when running from source
+  const file = ['config.d.ts', 'config.ts']
+    .map((e) => join(__dirname, e))
+    .find((e) => existsSync(e));
+  if (!file) {
+    return [];
+  }
+  const project = new Project({
+    skipAddingFilesFromTsConfig: true,
+    skipFileDependencyResolution: true,
+  });
+  project.addSourceFileAtPath(file);
+  const src = project.createSourceFile(
+    join(__dirname, '__config.ts'),
+    `import type { Config } from './config';\ntype Root = Config | Config[];`,
+  );
+  const root = src.getTypeAliasOrThrow('Root');
+  return checkValue(config, root.getType(), '', root);
+}
+
+/**
+ * @param extra Whether keys not declared by the type are allowed, e.g. keys declared by other members of an intersection
+ */
+function checkValue(
+  value: any,
+  type: Type,
+  path: string,
+  node: Node,
+  extra = false,
+): string[] {
+  const name = path || 'config';
+  if (type.isAny() || type.isUnknown()) {
+    return [];
+  }
+  if (value === undefined || value === null) {
+    return type.isUndefined() || type.isNull()
+      ? []
+      : [`${name} must be ${describeType(type)}`];
+  }
+  if (type.isUnion() && !type.isBoolean()) {
+    return checkUnion(value, type, path, node);
+  }
+  if (type.isIntersection()) {
+    const errors = type
+      .getIntersectionTypes()
+      .flatMap((e) => checkValue(value, e, path, node, true));
+    return extra || !isPlainObject(value)
+      ? errors
+      : [...errors, ...checkUnknownKeys(value, type, path)];
+  }
+  if (type.isLiteral() || type.isBooleanLiteral()) {
+    return type.getText() === JSON.stringify(value) ||
+      type.getText() === `'${value}'`
+      ? []
+      : [`${name} must be ${describeType(type)}`];
+  }
+  if (type.isString() || type.isNumber() || type.isBoolean()) {
+    return typeof value === type.getText()
+      ? []
+      : [`${name} must be ${describeType(type)}`];
+  }
+  if (type.getCallSignatures().length) {
+    return typeof value === 'function'
+      ? []
+      : [`${name} must be ${describeType(type)}`];
+  }
+  if (type.isArray()) {
+    if (!Array.isArray(value)) {
+      return [`${name} must be ${describeType(type)}`];
+    }
+    const element = type.getArrayElementTypeOrThrow();
+    return value.flatMap((e, i) =>
+      checkValue(e, element, `${path}[${i}]`, node),
+    );
+  }
+  if (type.isObject()) {
+    if (!isPlainObject(value)) {
+      return [`${name} must be ${describeType(type)}`];
+    }
+    const errors: string[] = [];
+    for (const prop of type.getProperties()) {
+      const key = prop.getName();
+      const propPath = path ? `${path}.${key}` : key;
+      if (value[key] === undefined) {
+        if (!prop.hasFlags(SymbolFlags.Optional)) {
+          errors.push(`${propPath} is required`);
+        }
+        continue;
+      }
+      errors.push(
+        ...checkValue(value[key], prop.getTypeAtLocation(node), propPath, node),
+      );
+    }
+    // extra keys are allowed by index signatures, e.g. plugin options
+    const indexType = type.getStringIndexType();
+    if (indexType) {
+      for (const [key, item] of Object.entries(value)) {
+        if (!type.getProperty(key)) {
+          errors.push(
+            ...checkValue(item, indexType, path ? `${path}.${key}` : key, node),
+          );
+        }
+      }
+    } else if (!extra) {
+      errors.push(...checkUnknownKeys(value, type, path));
+    }
+    return errors;
+  }
+  return [];
+}
+
+/**
+ * Report keys neither declared by the type nor allowed by an index signature, e.g. misspelled options
+ */
+function checkUnknownKeys(
+  value: Record<string, any>,
+  type: Type,
+  path: string,
+): string[] {
+  if (type.getStringIndexType()) {
+    return [];
+  }
+  return Object.keys(value)
+    .filter((key) => !type.getProperty(key))
+    .map((key) => `${path ? `${path}.${key}` : key} is unknown`);
+}
+
+/**
+ * Members with literal discriminants matching the value(e.g. `writer: 'axios'`) are checked in preference to others.
+ * If none of the members matches, errors of the closest one are reported
+ */
+function checkUnion(
+  value: any,
+  type: Type,
+  path: string,
+  node: Node,
+): string[] {
+  let members = type
+    .getUnionTypes()
+    .filter((e) => [getValueKind(value), 'any'].includes(getTypeKind(e)));
+  if (!members.length) {
+    return [`${path || 'config'} must be ${describeType(type)}`];
+  }
+  if (isPlainObject(value)) {
+    for (const [key, item] of Object.entries(value)) {
+      const literals = members.filter((e) => {
+        const prop = e.getProperty(key);
+        return prop && prop.getTypeAtLocation(node).isLiteral();
+      });
+      if (!literals.length) {
+        continue;
+      }
+      const matched = literals.filter(
+        (e) =>
+          !checkValue(
+            item,
+            e.getProperty(key).getTypeAtLocation(node),
+            '',
+            node,
+          ).length,
+      );
+      members = matched.length
+        ? matched
+        : members.filter((e) => !literals.includes(e));
+      if (!members.length) {
+        return checkValue(
+          item,
+          literals[0].getProperty(key).getTypeAtLocation(node),
+          path ? `${path}.${key}` : key,
+          node,
+        );
+      }
+    }
+  }
+  if (!isPlainObject(value) && !Array.isArray(value)) {
+    return members.some((e) => !checkValue(value, e, path, node).length)
+      ? []
+      : [`${path || 'config'} must be ${describeType(type)}`];
+  }
+  let closest: { errors: string[]; keys: number };
+  for (const member of members) {
+    const errors = checkValue(value, member, path, node);
+    if (!errors.length) {
+      return [];
+    }
+    const keys = isPlainObject(value)
+      ? Object.keys(value).filter((e) => member.getProperty(e)).length
+      : 0;
+    if (
+      !closest ||
+      errors.length < closest.errors.length ||
+      (errors.length === closest.errors.length && keys > closest.keys)
+    ) {
+      closest = { errors, keys };
+    }
+  }
+  return closest.errors;
+}
+
+function getValueKind(value: any): string {
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return typeof value;
+}
+
+function getTypeKind(type: Type): string {
+  if (type.isAny() || type.isUnknown()) {
+    return 'any';
+  }
+  if (type.isString() || type.isStringLiteral()) {
+    return 'string';
+  }
+  if (type.isNumber() || type.isNumberLiteral()) {
+    return 'number';
+  }
+  if (type.isBoolean() || type.isBooleanLiteral()) {
+    return 'boolean';
+  }
+  if (type.getCallSignatures().length) {
+    return 'function';
+  }
+  if (type.isArray()) {
+    return 'array';
+  }
+  return 'object';
+}
+
+function describeType(type: Type): string {
+  if (type.isUnion() && !type.isBoolean()) {
+    return Array.from(
+      new Set(type.getUnionTypes().map((e) => describeType(e))),
+    ).join(' | ');
+  }
+  if (type.isLiteral() || type.isBooleanLiteral()) {
+    return type.getText();
+  }
+  switch (getTypeKind(type)) {
+    case 'any':
+      return 'any value';
+    case 'array':
+      return 'an array';
+    case 'object':
+      return 'an object';
+    default:
+      return `a ${getTypeKind(type)}`;
+  }
+}
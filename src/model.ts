@@ -0,0 +1,254 @@
+import { readFileSync } from 'fs';
+import {
+  ClassDeclaration,
+  EnumDeclaration,
+  InterfaceDeclaration,
+  Node,
+  Project,
+  TypeAliasDeclaration,
+  TypeFormatFlags,
+} from 'ts-morph';
+import { getReachableTypes } from './parsers/utils';
+import { Parser } from './types';
+
+/**
+ * Version of the model format. Bumped on breaking changes
+ */
+export const modelVersion = 1;
+
+/**
+ * Plain data of controllers and types parsed from a project, which can be saved as JSON and loaded by the `model` parser
+ */
+export interface Model {
+  version: number;
+  controllers: Model.Controller[];
+  types: Model.TypeDefinition[];
+  /**
+   * Names imported from unresolved modules(e.g. packages not installed), which are treated as `any`
+   */
+  externals?: string[];
+}
+
+export namespace Model {
+  export interface Controller {
+    name: string;
+    className?: string;
+    baseUrl: string;
+    /**
+     * JSDoc comments
+     */
+    docs: string[];
+    requests: Request[];
+  }
+  export interface Request {
+    name: string;
+    url: string;
+    baseUrl?: string;
+    method: string;
+    headers?: Record<string, string>;
+    params?: PartialParameter[];
+    query?: Parameter | PartialParameter[];
+    data?: Parameter | PartialParameter[];
+    headerParams?: Parameter | PartialParameter[];
+    files?: PartialParameter[];
+    sse?: boolean;
+    groups?: string[];
+    /**
+     * Type parameters of the handler, e.g. `T extends object`
+     */
+    typeParameters?: string[];
+    /**
+     * Response type
+     */
+    res: string;
+    /**
+     * JSDoc comments
+     */
+    docs: string[];
+  }
+  export interface Parameter {
+    name: string;
+    type: string;
+    optional?: boolean;
+  }
+  export interface PartialParameter {
+    property: string;
+    parameter: Parameter;
+  }
+  export interface TypeDefinition {
+    name: string;
+    kind: 'enum' | 'interface' | 'class' | 'type';
+    /**
+     * Declaration source including JSDoc and decorators. Method bodies are removed
+     */
+    source: string;
+  }
+}
+
+/**
+ * Create the model of controllers and types from a parser.
+ * Types referenced by requests are included even if they are not emitted by the parser, so that the model is self-contained
+ */
+export function createModel(parser: Parser): Model {
+  // requests may be iterated only once
+  const controllers = Array.from(parser.getControllers()).map((controller) => ({
+    ...controller,
+    requests: Array.from(controller.requests),
+  }));
+  const types = Array.from(parser.getTypes());
+  const names = new Set(types.map((e) => e.getName()));
+  for (const type of getReachableTypes(controllers)) {
+    if (!names.has(type.getName())) {
+      types.push(type);
+    }
+  }
+  const model: Model = {
+    version: modelVersion,
+    controllers: controllers.map((controller) => ({
+      name: controller.name,
+      className: controller.className,
+      baseUrl: controller.baseUrl,
+      docs: controller.docs.map((doc) => doc.getText()),
+      requests: controller.requests.map(toModelRequest),
+    })),
+    types: getTypeDefinitions(types),
+  };
+  const externals = getExternals(
+    [
+      ...types,
+      ...controllers.flatMap((e) => e.requests.map((request) => request.func)),
+    ],
+    JSON.stringify(model),
+  );
+  if (externals.length) {
+    model.externals = externals;
+  }
+  return model;
+}
+
+/**
+ * Read a model saved by `--emit-model` and check its version
+ */
+export function readModel(path: string): Model {
+  const model: Model = JSON.parse(readFileSync(path, 'utf-8'));
+  if (model.version !== modelVersion) {
+    throw new Error(
+      `Model version ${model.version} is not supported(expected ${modelVersion})`,
+    );
+  }
+  return model;
+}
+
+function getTypeDefinitions(
+  types: (
+    | EnumDeclaration
+    | InterfaceDeclaration
+    | ClassDeclaration
+    | TypeAliasDeclaration
+  )[],
+): Model.TypeDefinition[] {
+  const project = new Project({ useInMemoryFileSystem: true });
+  const src = project.createSourceFile(
+    'types.ts',
+    types.map((e) => e.getText(true)).join('\n\n'),
+  );
+  // implementations are not part of the model
+  for (const cls of src.getClasses()) {
+    for (const member of cls.getMembers()) {
+      if (
+        (Node.isMethodDeclaration(member) ||
+          Node.isConstructorDeclaration(member) ||
+          Node.isGetAccessorDeclaration(member) ||
+          Node.isSetAccessorDeclaration(member)) &&
+        member.hasBody()
+      ) {
+        member.removeBody();
+      }
+    }
+  }
+  return src.getStatements().map((statement, i) => ({
+    name: types[i].getName(),
+    kind: Node.isEnumDeclaration(statement)
+      ? 'enum'
+      : Node.isInterfaceDeclaration(statement)
+      ? 'interface'
+      : Node.isClassDeclaration(statement)
+      ? 'class'
+      : 'type',
+    source: statement.getText(true),
+  }));
+}
+
+/**
+ * Get names imported from unresolved modules by source files of the nodes and used in the model.
+ * They would otherwise be resolved to globals of the same names(e.g. `MessageEvent`) when the model is loaded
+ */
+function getExternals(nodes: Node[], text: string): string[] {
+  const names = new Set<string>();
+  const files = new Set(nodes.map((e) => e.getSourceFile()));
+  for (const src of files) {
+    for (const imp of src.getImportDeclarations()) {
+      if (imp.getModuleSpecifierSourceFile()) {
+        continue;
+      }
+      for (const spec of imp.getNamedImports()) {
+        const name = (spec.getAliasNode() ?? spec.getNameNode()).getText();
+        if (new RegExp(`\\b${name}\\b`).test(text)) {
+          names.add(name);
+        }
+      }
+    }
+  }
+  return Array.from(names);
+}
+
+function toModelRequest(request: Parser.Request): Model.Request {
+  return {
+    name: request.name,
+    url: request.url,
+    baseUrl: request.baseUrl,
+    method: request.method,
+    headers: request.headers,
+    params: request.params?.map(toModelPartial),
+    query: toModelParameters(request.query),
+    data: toModelParameters(request.data),
+    headerParams: toModelParameters(request.headerParams),
+    files: request.files?.map(toModelPartial),
+    sse: request.sse,
+    groups: request.groups,
+    typeParameters: request.func.getTypeParameters().length
+      ? request.func.getTypeParameters().map((e) => e.getText())
+      : undefined,
+    res: request.res.getText(null, TypeFormatFlags.None),
+    docs: request.docs.map((doc) => doc.getText()),
+  };
+}
+
+function toModelParameters(
+  parameters:
+    | Parser.Parameter
+    | Parser.PartialParameterDeclaration[]
+    | undefined,
+): Model.Parameter | Model.PartialParameter[] | undefined {
+  if (!parameters) {
+    return;
+  }
+  return Array.isArray(parameters)
+    ? parameters.map(toModelPartial)
+    : toModelParameter(parameters);
+}
+
+function toModelPartial({
+  property,
+  parameter,
+}: Parser.PartialParameterDeclaration): Model.PartialParameter {
+  return { property, parameter: toModelParameter(parameter) };
+}
+
+function toModelParameter(parameter: Parser.Parameter): Model.Parameter {
+  return {
+    name: parameter.getName(),
+    type: parameter.getType().getText(null, TypeFormatFlags.None),
+    optional: parameter.isOptional() || undefined,
+  };
+}
@@ -0,0 +1,172 @@
+import type { JSDoc } from 'ts-morph';
+import type { Config } from './config';
+import { joinPaths } from './parsers/utils';
+import type { Parser } from './types';
+
+/**
+ * Filter requests by `include`/`exclude` and rename controllers and requests by `naming`.
+ * Controllers without requests left are dropped
+ */
+export function transformControllers(
+  controllers: Iterable<Parser.Controller>,
+  config: Config.BaseOutput,
+): Parser.Controller[] {
+  const { naming = {}, include, exclude } = config;
+  const result: Parser.Controller[] = [];
+  for (const controller of controllers) {
+    const name = getControllerName(controller, naming);
+    const names = [controller.name, controller.className, name];
+    const all = Array.from(controller.requests);
+    const requests = all.filter(
+      (request) =>
+        (!include || matchFilter(include, names, controller, request)) &&
+        (!exclude || !matchFilter(exclude, names, controller, request)),
+    );
+    if (all.length && !requests.length) {
+      continue;
+    }
+    result.push({
+      ...controller,
+      name,
+      requests: requests.map((request) => ({
+        ...request,
+        name: naming.operation
+          ? formatName(naming.operation, {
+              verb: request.method,
+              controller: name,
+              method: request.name,
+            })
+          : request.name,
+      })),
+    });
+  }
+  return result;
+}
+
+/**
+ * Check that request names are unique across controllers, since requests are exported at the top level in flat layout
+ */
+export function checkFlatNames(controllers: Parser.Controller[]): void {
+  const owners = new Map<string, string>();
+  for (const controller of controllers) {
+    for (const request of controller.requests) {
+      const owner = owners.get(request.name);
+      if (owner !== undefined) {
+        throw new Error(
+          `Request "${request.name}" of controller "${controller.name}" clashes with the one of controller "${owner}" in flat layout. ` +
+            'Set an `operation` naming template including `{Controller}`(e.g. "{verb}{Controller}{Method}") to keep names unique',
+        );
+      }
+      owners.set(request.name, controller.name);
+    }
+  }
+}
+
+/**
+ * Get the namespace name of a controller in the given casing
+ */
+export function getNamespaceName(
+  name: string,
+  casing: Config.Naming['namespace'] = 'upper',
+): string {
+  switch (casing) {
+    case 'upper':
+      return name.toUpperCase();
+    case 'pascal':
+      return toPascalCase(name);
+    case 'camel':
+      return toCamelCase(name);
+    case 'preserve':
+      return name;
+  }
+}
+
+export function toPascalCase(name: string): string {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter((e) => e)
+    .map((e) => e.charAt(0).toUpperCase() + e.slice(1))
+    .join('');
+}
+
+export function toCamelCase(name: string): string {
+  const pascal = toPascalCase(name);
+  return pascal.charAt(0).toLowerCase() + pascal.slice(1);
+}
+
+function getControllerName(
+  controller: Parser.Controller,
+  naming: Config.Naming,
+): string {
+  if (naming.controller !== 'class' || !controller.className) {
+    return controller.name;
+  }
+  return toCamelCase(controller.className.replace(/(Controller|Router)$/, ''));
+}
+
+/**
+ * Replace `{verb}`, `{controller}` and `{method}` placeholders. Capitalized placeholders are pascal cased
+ */
+function formatName(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => {
+    const value = values[key.toLowerCase()];
+    if (value === undefined) {
+      throw new Error(`Unknown placeholder ${match} in "${template}"`);
+    }
+    return /^[A-Z]/.test(key) ? toPascalCase(value) : toCamelCase(value);
+  });
+}
+
+function matchFilter(
+  filter: Config.Filter,
+  names: string[],
+  controller: Parser.Controller,
+  request: Parser.Request,
+): boolean {
+  const { controllers, paths, methods, tags } = filter;
+  if (controllers && !controllers.some((e) => names.includes(e))) {
+    return false;
+  }
+  if (paths) {
+    const path = joinPaths(request.baseUrl ?? controller.baseUrl, request.url);
+    if (!paths.some((e) => toPathPattern(e).test(path))) {
+      return false;
+    }
+  }
+  if (
+    methods &&
+    !methods.some((e) => e.toLowerCase() === request.method.toLowerCase())
+  ) {
+    return false;
+  }
+  if (tags) {
+    const docTags = getTagNames([...controller.docs, ...request.docs]);
+    if (!tags.some((e) => docTags.includes(e.replace(/^@/, '')))) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function getTagNames(docs: JSDoc[]): string[] {
+  return docs.flatMap((doc) => doc.getTags().map((tag) => tag.getTagName()));
+}
+
+/**
+ * `*` matches a path segment and `**` matches any
+ */
+function toPathPattern(pattern: string): RegExp {
+  const source = joinPaths(pattern)
+    .split(/(\*\*|\*)/)
+    .map((e) =>
+      e === '**'
+        ? '.*'
+        : e === '*'
+        ? '[^/]*'
+        : e.replace(/[.+?^${}()|[\]\\]/g, '\\$&'),
+    )
+    .join('');
+  // `/admin/**` also matches `/admin`
+  return new RegExp(`^${source.replace(/\/\.\*$/, '(/.*)?')}$`);
+}
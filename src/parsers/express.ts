@@ -0,0 +1,351 @@
+import {
+  CallExpression,
+  JSDoc,
+  Node,
+  SyntaxKind,
+  ts,
+  Type,
+  TypeNode,
+  VariableDeclaration,
+} from 'ts-morph';
+import { Config } from '../config';
+import { Parser } from '../types';
+import { SourceParser } from './source';
+import {
+  evaluateString,
+  getDeclaration,
+  getLocation,
+  joinPaths,
+  SyntheticParameter,
+  warnOnce,
+} from './utils';
+
+const RouteMethodNames = ['get', 'post', 'put', 'patch', 'delete'];
+
+interface Route {
+  call: CallExpression;
+  method: string;
+  path: string;
+}
+
+interface Mount {
+  parent: VariableDeclaration;
+  child: VariableDeclaration;
+  prefix: string;
+}
+
+/**
+ * Type arguments of `Request<Params, ResBody, ReqBody, Query>`
+ */
+interface RouteTypes {
+  params?: Type<ts.Type>;
+  /**
+   * Path param types from JSDoc `@param` tags
+   */
+  paramTags: Map<string, Type<ts.Type>>;
+  res?: Type<ts.Type>;
+  data?: Type<ts.Type>;
+  query?: Type<ts.Type>;
+}
+
+class ExpressParser extends SourceParser<Config.ExpressInput> {
+  *getControllers(): Iterable<Parser.Controller> {
+    const routers = new Map<VariableDeclaration, Route[]>();
+    const mounts: Mount[] = [];
+    for (const src of this.controllerSrcFiles) {
+      for (const call of src.getDescendantsOfKind(SyntaxKind.CallExpression)) {
+        const callee = call.getExpression();
+        if (!Node.isPropertyAccessExpression(callee)) {
+          continue;
+        }
+        const parent = getRouter(callee.getExpression());
+        if (!parent) {
+          continue;
+        }
+        const name = callee.getName();
+        const args = call.getArguments();
+        if (RouteMethodNames.includes(name) && args.length > 1) {
+          const path = evaluateString(args[0]);
+          if (path === undefined) {
+            // skip this route only
+            warnOnce(
+              `Route skipped: cannot resolve path \`${args[0].getText()}\` at ${getLocation(
+                args[0],
+              )}`,
+            );
+            continue;
+          }
+          if (!routers.has(parent)) {
+            routers.set(parent, []);
+          }
+          routers.get(parent).push({ call, method: name, path });
+        } else if (name === 'use') {
+          // the first argument may be a middleware instead of a path
+          const prefix = evaluateString(args[0]) ?? '';
+          for (const arg of args) {
+            const child = getRouter(arg);
+            if (child) {
+              mounts.push({ parent, child, prefix });
+            }
+          }
+        }
+      }
+    }
+    for (const [router, routes] of routers) {
+      const src = router.getSourceFile();
+      const [fileName] = src.getBaseNameWithoutExtension().split('.', 1);
+      const siblings = Array.from(routers.keys()).filter(
+        (e) => e.getSourceFile() === src,
+      );
+      const name = siblings.length > 1 ? router.getName() : fileName;
+      // a router mounted at several paths is emitted for each of them, e.g. `users` and `users2`
+      const baseUrls = getBaseUrls(router, mounts);
+      for (const [i, baseUrl] of baseUrls.entries()) {
+        yield {
+          name: i ? `${name}${i + 1}` : name,
+          className: router.getName(),
+          baseUrl,
+          docs: router.getVariableStatement()?.getJsDocs() ?? [],
+          requests: this.getRequests(routes),
+        };
+      }
+    }
+  }
+
+  protected *getRequests(routes: Route[]): Iterable<Parser.Request> {
+    const names = new Set<string>();
+    for (const route of routes) {
+      const func = getHandler(route.call.getArguments().slice(-1)[0]);
+      if (!func) {
+        continue;
+      }
+      const docs = this.getDocs(route.call, func);
+      const types = this.getRouteTypes(route.call, func, docs);
+      const { url, params } = this.getParams(route.path, types, route.call);
+      let name = getHandlerName(func) ?? getRouteName(route.method, url);
+      for (let i = 2; names.has(name); i++) {
+        name = getRouteName(route.method, url) + i;
+      }
+      names.add(name);
+      yield {
+        name,
+        url,
+        method: route.method,
+        params,
+        query: types.query && new SyntheticParameter('query', types.query),
+        data:
+          route.method !== 'get' && types.data
+            ? new SyntheticParameter('body', types.data)
+            : undefined,
+        res: types.res ?? this.getKeywordType('any'),
+        docs,
+        func,
+      };
+    }
+  }
+
+  protected getParams(
+    path: string,
+    types: RouteTypes,
+    node: Node,
+  ): Pick<Parser.Request, 'url' | 'params'> {
+    const params: Parser.PartialParameterDeclaration[] = [];
+    // strip custom patterns and optional markers(e.g. `/:id(\\d+)`, `/:page?`) which the writers do not understand
+    const url = path.replace(
+      /:(\w+)(\([^)]*\))?(\?)?/g,
+      (_, property: string, pattern: string, optional: string) => {
+        const type =
+          types.paramTags.get(property) ??
+          types.params?.getProperty(property)?.getTypeAtLocation(node) ??
+          this.getKeywordType('string');
+        params.push({
+          property,
+          parameter: new SyntheticParameter(property, type, !!optional),
+        });
+        return ':' + property;
+      },
+    );
+    return { url, params: params.length ? params : undefined };
+  }
+
+  protected getDocs(call: CallExpression, func: Parser.Handler): JSDoc[] {
+    const statement = call.getParentIfKind(SyntaxKind.ExpressionStatement);
+    if (statement && statement.getJsDocs().length) {
+      return statement.getJsDocs();
+    }
+    if (Node.isFunctionDeclaration(func) || Node.isMethodDeclaration(func)) {
+      return func.getJsDocs();
+    }
+    return (
+      func.getFirstAncestorByKind(SyntaxKind.VariableStatement)?.getJsDocs() ??
+      []
+    );
+  }
+
+  /**
+   * Resolve route types from (in order of precedence) JSDoc tags, call type arguments, handler parameters and handler type annotation
+   */
+  protected getRouteTypes(
+    call: CallExpression,
+    func: Parser.Handler,
+    docs: JSDoc[],
+  ): RouteTypes {
+    const [req, res] = func.getParameters();
+    const callTypeArgs = call.getTypeArguments();
+    const typeArgs =
+      (callTypeArgs.length ? callTypeArgs : undefined) ||
+      getTypeArguments(req?.getTypeNode(), 'Request') ||
+      getTypeArguments(
+        func.getParentIfKind(SyntaxKind.VariableDeclaration)?.getTypeNode(),
+        'RequestHandler',
+      ) ||
+      [];
+    const types: RouteTypes = {
+      params: typeArgs[0]?.getType(),
+      res:
+        typeArgs[1]?.getType() ??
+        getTypeArguments(res?.getTypeNode(), 'Response')?.[0]?.getType(),
+      data: typeArgs[2]?.getType(),
+      query: typeArgs[3]?.getType(),
+      paramTags: new Map(),
+    };
+    for (const tag of docs.flatMap((doc) => doc.getTags())) {
+      if (Node.isJSDocReturnTag(tag)) {
+        const type = tag.getTypeExpression()?.getTypeNode().getType();
+        if (type) {
+          types.res = type;
+        }
+      } else if (Node.isJSDocParameterTag(tag)) {
+        const type = tag.getTypeExpression()?.getTypeNode().getType();
+        if (!type) {
+          continue;
+        }
+        switch (tag.getName()) {
+          case 'query':
+            types.query = type;
+            break;
+          case 'body':
+            types.data = type;
+            break;
+          default:
+            types.paramTags.set(tag.getName(), type);
+            break;
+        }
+      }
+    }
+    return types;
+  }
+}
+
+/**
+ * Get the declaration of a router/app created by `Router()`, `express.Router()` or `express()`
+ */
+function getRouter(node: Node): VariableDeclaration | undefined {
+  if (!Node.isIdentifier(node)) {
+    return;
+  }
+  const decl = getDeclaration(node);
+  if (!Node.isVariableDeclaration(decl)) {
+    return;
+  }
+  const init = decl.getInitializerIfKind(SyntaxKind.CallExpression);
+  if (
+    init &&
+    /^(\w+\.)?Router$|^express$/.test(init.getExpression().getText())
+  ) {
+    return decl;
+  }
+}
+
+/**
+ * Get paths of a router from all of its mounts, including mounts of its parents
+ * @param visited Routers of the current mount chain, to stop on circular mounts
+ */
+function getBaseUrls(
+  router: VariableDeclaration,
+  mounts: Mount[],
+  visited = new Set<VariableDeclaration>(),
+): string[] {
+  const parents = mounts.filter((e) => e.child === router);
+  if (!parents.length || visited.has(router)) {
+    return [''];
+  }
+  const urls = parents.flatMap((mount) =>
+    getBaseUrls(mount.parent, mounts, new Set([...visited, router])).map(
+      (base) => joinPaths(base, mount.prefix),
+    ),
+  );
+  return Array.from(new Set(urls));
+}
+
+/**
+ * Resolve the last handler of a route, unwrapping wrappers such as `asyncHandler(async (req, res) => {})`
+ */
+function getHandler(node: Node): Parser.Handler | undefined {
+  if (
+    Node.isArrowFunction(node) ||
+    Node.isFunctionExpression(node) ||
+    Node.isFunctionDeclaration(node) ||
+    Node.isMethodDeclaration(node)
+  ) {
+    return node;
+  }
+  if (Node.isCallExpression(node)) {
+    const [last] = node.getArguments().slice(-1);
+    return last && getHandler(last);
+  }
+  if (Node.isIdentifier(node) || Node.isPropertyAccessExpression(node)) {
+    const decl = getDeclaration(node);
+    if (Node.isVariableDeclaration(decl)) {
+      const init = decl.getInitializer();
+      return init && getHandler(init);
+    }
+    return decl && getHandler(decl);
+  }
+}
+
+function getHandlerName(func: Parser.Handler): string | undefined {
+  if (Node.isFunctionDeclaration(func) || Node.isMethodDeclaration(func)) {
+    return func.getName();
+  }
+  return func.getParentIfKind(SyntaxKind.VariableDeclaration)?.getName();
+}
+
+/**
+ * Create a function name from route method and url(e.g. `GET /:id/avatar` => `getByIdAvatar`)
+ */
+function getRouteName(method: string, url: string): string {
+  return url
+    .split('/')
+    .filter((e) => e)
+    .map((e) => (e.startsWith(':') ? 'By' + capitalize(e.slice(1)) : e))
+    .map((e) =>
+      e
+        .split(/[^A-Za-z0-9]+/g)
+        .map(capitalize)
+        .join(''),
+    )
+    .reduce((name, e) => name + e, method);
+}
+
+function capitalize(str: string): string {
+  return str.charAt(0).toUpperCase() + str.slice(1);
+}
+
+function getTypeArguments(
+  node: TypeNode | undefined,
+  name: string,
+): TypeNode[] | undefined {
+  if (!Node.isTypeReference(node)) {
+    return;
+  }
+  if (node.getTypeName().getText().split('.').pop() !== name) {
+    return;
+  }
+  const args = node.getTypeArguments();
+  if (args.length) {
+    return args;
+  }
+}
+
+export default ExpressParser;
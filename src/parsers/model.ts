@@ -0,0 +1,173 @@
+import { resolve } from 'path';
+import {
+  ClassDeclaration,
+  EnumDeclaration,
+  FunctionDeclaration,
+  InterfaceDeclaration,
+  Node,
+  Project,
+  SourceFile,
+  TypeAliasDeclaration,
+} from 'ts-morph';
+import { Config } from '../config';
+import { Model, readModel } from '../model';
+import { Parser } from '../types';
+
+type TypeDeclaration =
+  | EnumDeclaration
+  | InterfaceDeclaration
+  | ClassDeclaration
+  | TypeAliasDeclaration;
+
+/**
+ * Load controllers and types from a model saved by `--emit-model`.
+ * Types and request handlers are declared in an in-memory source file so that writers can resolve them as usual
+ */
+class ModelParser extends Parser {
+  private src: SourceFile;
+  private types: TypeDeclaration[];
+  private controllers: Parser.Controller[];
+
+  constructor(protected readonly config: Config.ModelInput) {
+    super(config);
+    this.load();
+  }
+
+  refresh(files: string[]): void {
+    if (files.includes(resolve(this.config.model))) {
+      this.load();
+    }
+  }
+
+  getControllers(): Iterable<Parser.Controller> {
+    return this.controllers;
+  }
+
+  getTypes(): Iterable<TypeDeclaration> {
+    return this.types;
+  }
+
+  protected load(): void {
+    const model = readModel(this.config.model);
+    const project = new Project({
+      useInMemoryFileSystem: true,
+      compilerOptions: { strictNullChecks: true },
+    });
+    this.src = project.createSourceFile(
+      'model.ts',
+      model.types.map((e) => e.source).join('\n\n'),
+    );
+    this.types = this.src
+      .getStatements()
+      .filter(
+        (e): e is TypeDeclaration =>
+          Node.isEnumDeclaration(e) ||
+          Node.isInterfaceDeclaration(e) ||
+          Node.isClassDeclaration(e) ||
+          Node.isTypeAliasDeclaration(e),
+      );
+    // shadow globals of the same names
+    this.src.addTypeAliases(
+      (model.externals ?? []).map((name) => ({ name, type: 'any' })),
+    );
+    // declared after types so that types keep their order
+    const handlers = model.controllers.map((controller, i) => ({
+      controller: this.src.addFunction({
+        name: `__controller${i}`,
+        hasDeclareKeyword: true,
+        leadingTrivia: controller.docs.join('\n'),
+      }),
+      requests: controller.requests.map((request, j) =>
+        this.addHandler(request, `__request${i}_${j}`),
+      ),
+    }));
+    this.controllers = model.controllers.map((controller, i) => ({
+      name: controller.name,
+      className: controller.className,
+      baseUrl: controller.baseUrl,
+      docs: handlers[i].controller.getJsDocs(),
+      requests: controller.requests.map((request, j) =>
+        toRequest(request, handlers[i].requests[j]),
+      ),
+    }));
+  }
+
+  /**
+   * Declare a function taking all parameters of a request and returning its response type
+   */
+  protected addHandler(
+    request: Model.Request,
+    name: string,
+  ): FunctionDeclaration {
+    const parameters = new Map<string, Model.Parameter>();
+    for (const group of [
+      request.params,
+      request.query,
+      request.data,
+      request.files,
+      request.headerParams,
+    ]) {
+      for (const parameter of getParameters(group)) {
+        if (!parameters.has(parameter.name)) {
+          parameters.set(parameter.name, parameter);
+        }
+      }
+    }
+    return this.src.addFunction({
+      name,
+      hasDeclareKeyword: true,
+      leadingTrivia: request.docs.join('\n'),
+      typeParameters: request.typeParameters,
+      parameters: Array.from(parameters.values()).map((parameter) => ({
+        name: parameter.name,
+        type: parameter.type,
+        hasQuestionToken: parameter.optional,
+      })),
+      returnType: request.res,
+    });
+  }
+}
+
+function getParameters(
+  group: Model.Parameter | Model.PartialParameter[] | undefined,
+): Model.Parameter[] {
+  if (!group) {
+    return [];
+  }
+  return Array.isArray(group) ? group.map((e) => e.parameter) : [group];
+}
+
+function toRequest(
+  request: Model.Request,
+  func: FunctionDeclaration,
+): Parser.Request {
+  const toParameter = (parameter: Model.Parameter) =>
+    func.getParameterOrThrow(parameter.name);
+  const toPartial = ({ property, parameter }: Model.PartialParameter) => ({
+    property,
+    parameter: toParameter(parameter),
+  });
+  const toGroup = (
+    group: Model.Parameter | Model.PartialParameter[] | undefined,
+  ) =>
+    group && (Array.isArray(group) ? group.map(toPartial) : toParameter(group));
+  return {
+    name: request.name,
+    url: request.url,
+    baseUrl: request.baseUrl,
+    method: request.method,
+    headers: request.headers,
+    params: request.params?.map(toPartial),
+    query: toGroup(request.query),
+    data: toGroup(request.data),
+    headerParams: toGroup(request.headerParams),
+    files: request.files?.map(toPartial),
+    sse: request.sse,
+    groups: request.groups,
+    res: func.getReturnType(),
+    docs: func.getJsDocs(),
+    func,
+  };
+}
+
+export default ModelParser;
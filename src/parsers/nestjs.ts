@@ -6,7 +6,6 @@ import {
   MethodDeclaration,
   Node,
   ParameterDeclaration,
-  Project,
   SourceFile,
   SyntaxKind,
   ts,
@@ -16,21 +15,77 @@ import {
 } from 'ts-morph';
 import { Config } from '../config';
 import { Parser } from '../types';
+import { SourceParser } from './source';
+import {
+  evaluateString,
+  getDeclaration,
+  getLocation,
+  joinPaths,
+  SyntheticParameter,
+  warnOnce,
+} from './utils';
 
-const MethodDecoratorNames = ['Get', 'Post', 'Put', 'Patch', 'Delete'];
+const MethodDecoratorNames = [
+  'Get',
+  'Post',
+  'Put',
+  'Patch',
+  'Delete',
+  'All',
+  'Head',
+  'Options',
+  'Sse',
+];
 
-class NestjsParser extends Parser {
-  private readonly controllerSrcFiles: Iterable<SourceFile>;
-  private readonly typeSrcFiles: Iterable<SourceFile>;
+/**
+ * In-memory file declaring response types wrapped by the envelope
+ */
+const EnvelopeFile = '__node2api_envelope__.ts';
 
-  constructor(protected readonly config: Config.NestjsInput) {
-    super(config);
-    const project = new Project();
-    this.controllerSrcFiles = project.addSourceFilesAtPaths(config.sources);
-    this.typeSrcFiles = project.addSourceFilesAtPaths(config.types);
-  }
+const VersioningTypes: Record<string, Config.NestjsInput.Versioning['type']> = {
+  URI: 'uri',
+  HEADER: 'header',
+  MEDIA_TYPE: 'media-type',
+  CUSTOM: 'custom',
+};
+
+/**
+ * Application level routing options
+ */
+interface AppRouting {
+  globalPrefix?: string;
+  /**
+   * Route paths excluded from global prefix
+   */
+  excludes: string[];
+  versioning?: Config.NestjsInput.Versioning;
+  /**
+   * Path prefixes of controllers from `RouterModule`
+   */
+  modulePaths: Map<ClassDeclaration, string>;
+  /**
+   * Whether `ClassSerializerInterceptor` is a global interceptor
+   */
+  serializer?: boolean;
+  /**
+   * Names of global interceptors
+   */
+  interceptors: string[];
+  /**
+   * Response types of methods wrapped by the envelope
+   */
+  envelopes?: Map<MethodDeclaration, Type<ts.Type>>;
+}
+
+/**
+ * Controller/method versions. `null` means `VERSION_NEUTRAL`
+ */
+type Versions = string[] | null;
 
+class NestjsParser extends SourceParser<Config.NestjsInput> {
   *getControllers(): Iterable<Parser.Controller> {
+    const routing = this.getRouting();
+    routing.envelopes = this.getEnvelopeTypes(routing);
     for (const src of this.controllerSrcFiles) {
       for (const type of src.getClasses()) {
         const deco = type.getDecorator('Controller');
@@ -38,11 +93,25 @@ class NestjsParser extends Parser {
           continue;
         }
         const [name] = src.getBaseNameWithoutExtension().split('.', 1);
-        const baseUrl = this.getBaseUrl(deco);
+        let path: string;
+        let version: Versions | undefined;
+        try {
+          path = joinPaths(
+            routing.modulePaths.get(type),
+            this.getBaseUrl(deco),
+          );
+          version = getControllerVersions(deco);
+        } catch (error) {
+          // skip this controller only
+          warnOnce(`Controller skipped: ${error.message}`);
+          continue;
+        }
+        const baseUrl = getPrefixedPath(path, version, routing);
         const docs = type.getJsDocs();
-        const requests = this.getRequests(type);
+        const requests = this.getRequests(type, routing, path, version);
         yield {
           name,
+          className: type.getName(),
           baseUrl,
           docs,
           requests,
@@ -57,37 +126,227 @@ class NestjsParser extends Parser {
     | ClassDeclaration
     | TypeAliasDeclaration
   > {
-    for (const src of this.typeSrcFiles) {
-      yield* src.getEnums().filter((type) => type.isExported());
-      yield* src.getInterfaces().filter((type) => type.isExported());
-      yield* src.getClasses().filter((type) => type.isExported());
-      yield* src.getTypeAliases().filter((type) => type.isExported());
+    const types = Array.from(super.getTypes());
+    yield* types;
+    if (this.config.typeResolution !== 'reachable') {
+      // the envelope may be declared in `sources` or `envelope.file`
+      const envelope = this.getEnvelopeDeclaration();
+      if (envelope && !types.includes(envelope)) {
+        yield envelope;
+      }
+    }
+  }
+
+  protected loadSourceFiles(): void {
+    super.loadSourceFiles();
+    if (this.config.envelope?.file) {
+      this.project.addSourceFileAtPath(this.config.envelope.file);
+    }
+    if (this.config.entry) {
+      // load modules imported by the entry file
+      this.project.addSourceFileAtPath(this.config.entry);
+      this.project.resolveSourceFileDependencies();
     }
   }
 
-  protected *getRequests(type: ClassDeclaration): Iterable<Parser.Request> {
+  /**
+   * Resolve global prefix, versioning and module paths from config and the entry file
+   */
+  protected getRouting(): AppRouting {
+    const routing: AppRouting = {
+      globalPrefix: this.config.globalPrefix,
+      excludes: [],
+      versioning: this.config.versioning,
+      modulePaths: new Map(),
+      interceptors: [],
+    };
+    if (!this.config.entry) {
+      return routing;
+    }
+    const entry = this.project.getSourceFileOrThrow(this.config.entry);
+    for (const call of entry.getDescendantsOfKind(SyntaxKind.CallExpression)) {
+      const callee = call.getExpression();
+      if (!Node.isPropertyAccessExpression(callee)) {
+        continue;
+      }
+      const [arg0, arg1] = call.getArguments();
+      switch (callee.getName()) {
+        case 'setGlobalPrefix':
+          if (routing.globalPrefix == null && arg0) {
+            try {
+              routing.globalPrefix = getLiteralPath(arg0);
+              routing.excludes = getGlobalPrefixExcludes(arg1);
+            } catch (error) {
+              warnOnce(`Global prefix ignored: ${error.message}`);
+            }
+          }
+          break;
+        case 'useGlobalInterceptors':
+          routing.interceptors.push(
+            ...call.getArguments().map((e) => getInterceptorName(e)),
+          );
+          if (
+            call
+              .getArguments()
+              .some((e) => e.getText().includes('ClassSerializerInterceptor'))
+          ) {
+            routing.serializer = true;
+          }
+          break;
+        case 'enableVersioning':
+          if (!routing.versioning) {
+            try {
+              routing.versioning = getVersioning(arg0);
+            } catch (error) {
+              warnOnce(`Versioning ignored: ${error.message}`);
+            }
+          }
+          break;
+      }
+    }
+
+    const controllerModules = new Map<ClassDeclaration, ClassDeclaration>();
+    const modulePaths = new Map<ClassDeclaration, string>();
+    for (const src of this.project.getSourceFiles()) {
+      if (src.isDeclarationFile() || src.isInNodeModules()) {
+        continue;
+      }
+      for (const type of src.getClasses()) {
+        const controllers = type
+          .getDecorator('Module')
+          ?.getArguments()[0]
+          ?.asKind(SyntaxKind.ObjectLiteralExpression)
+          ?.getProperty('controllers')
+          ?.asKind(SyntaxKind.PropertyAssignment)
+          ?.getInitializerIfKind(SyntaxKind.ArrayLiteralExpression);
+        for (const element of controllers?.getElements() ?? []) {
+          const controller = getDeclaration(element);
+          if (Node.isClassDeclaration(controller)) {
+            controllerModules.set(controller, type);
+          }
+        }
+      }
+      // `{ provide: APP_INTERCEPTOR, useClass: ClassSerializerInterceptor }`
+      for (const provider of src.getDescendantsOfKind(
+        SyntaxKind.ObjectLiteralExpression,
+      )) {
+        const [provide, useClass] = ['provide', 'useClass'].map((e) =>
+          provider
+            .getProperty(e)
+            ?.asKind(SyntaxKind.PropertyAssignment)
+            ?.getInitializer()
+            ?.getText(),
+        );
+        if (provide === 'APP_INTERCEPTOR' && useClass) {
+          routing.interceptors.push(useClass);
+          if (useClass === 'ClassSerializerInterceptor') {
+            routing.serializer = true;
+          }
+        }
+      }
+      for (const call of src.getDescendantsOfKind(SyntaxKind.CallExpression)) {
+        if (call.getExpression().getText() === 'RouterModule.register') {
+          addModulePaths(call.getArguments()[0], '', modulePaths);
+        }
+      }
+    }
+    for (const [controller, mod] of controllerModules) {
+      if (modulePaths.has(mod)) {
+        routing.modulePaths.set(controller, modulePaths.get(mod));
+      }
+    }
+    return routing;
+  }
+
+  protected *getRequests(
+    type: ClassDeclaration,
+    routing: AppRouting,
+    controllerPath: string,
+    controllerVersions: Versions | undefined,
+  ): Iterable<Parser.Request> {
     for (const method of type.getMethods()) {
       const verb = this.getVerb(method);
       if (!verb) {
         continue;
       }
-      const url = this.getUrl(verb);
-      const params = this.getParams(method);
-      const query = this.getQuery(method);
-      const data = this.getData(method);
-      const res = this.getReturnType(method);
-      yield {
-        url,
-        method: verb.getName().toLowerCase(),
-        params,
-        query,
-        data,
-        res,
-        func: method,
+      let request: Parser.Request;
+      try {
+        request = this.getRequest(
+          method,
+          verb,
+          routing,
+          controllerPath,
+          controllerVersions,
+        );
+      } catch (error) {
+        // skip this endpoint only
+        warnOnce(`Endpoint skipped: ${error.message}`);
+        continue;
+      }
+      yield request;
+    }
+  }
+
+  protected getRequest(
+    method: MethodDeclaration,
+    verb: Decorator,
+    routing: AppRouting,
+    controllerPath: string,
+    controllerVersions: Versions | undefined,
+  ): Parser.Request {
+    const { versioning } = routing;
+    const url = this.getUrl(verb);
+    const methodVersions = getMethodVersions(method);
+    const versions =
+      methodVersions !== undefined ? methodVersions : controllerVersions;
+    const path = joinPaths(controllerPath, url);
+    const baseUrl =
+      methodVersions !== undefined || isExcluded(path, routing)
+        ? getPrefixedPath(controllerPath, versions, routing, path)
+        : undefined;
+    const version = getVersion(
+      versions !== undefined ? versions : getDefaultVersions(versioning),
+    );
+    let headers: Record<string, string> | undefined;
+    if (version && versioning?.type === 'header' && versioning.header) {
+      headers = { [versioning.header]: version };
+    } else if (version && versioning?.type === 'media-type') {
+      headers = {
+        Accept: `application/json;${versioning.key ?? 'v='}${version}`,
       };
     }
+    const sse = verb.getName() === 'Sse';
+    const params = this.getParams(method);
+    const query = this.getQuery(method);
+    const data = this.getData(method);
+    const headerParams = this.getHeaderParams(method);
+    const files = this.getFiles(method);
+    const res = sse
+      ? this.getEventType(method)
+      : routing.envelopes?.get(method) ?? this.getReturnType(method);
+    const groups = this.getGroups(method, routing);
+    return {
+      name: method.getName(),
+      url,
+      baseUrl,
+      method: sse ? 'get' : verb.getName().toLowerCase(),
+      headers,
+      params,
+      query,
+      data,
+      headerParams,
+      files,
+      sse: sse || undefined,
+      groups,
+      res,
+      docs: method.getJsDocs(),
+      func: method,
+    };
   }
 
+  /**
+   * Get the response type. `Promise<T>` and `Observable<T>` are unwrapped
+   */
   protected getReturnType(method: MethodDeclaration): Type<ts.Type> {
     const type = method.getReturnType();
     const targetType = type.getTargetType();
@@ -96,9 +355,149 @@ class NestjsParser extends Parser {
         return type.getTypeArguments()[0];
       }
     }
+    if (type.getSymbol()?.getName() === 'Observable') {
+      return type.getTypeArguments()[0] ?? type;
+    }
     return type;
   }
 
+  /**
+   * Get event data type from `Observable<MessageEvent>` returned by `@Sse()` methods
+   */
+  protected getEventType(method: MethodDeclaration): Type<ts.Type> {
+    const type = this.getReturnType(method);
+    return type.getProperty('data')?.getTypeAtLocation(method) ?? type;
+  }
+
+  /**
+   * Resolve response types of methods wrapped by the envelope, e.g. `ApiResponse<User>['data']`.
+   * Types are declared in an in-memory file, which is only rewritten if changed so that types resolved before stay valid
+   */
+  protected getEnvelopeTypes(
+    routing: AppRouting,
+  ): Map<MethodDeclaration, Type<ts.Type>> {
+    const types = new Map<MethodDeclaration, Type<ts.Type>>();
+    const { envelope } = this.config;
+    if (!envelope) {
+      return types;
+    }
+    const decl = this.getEnvelopeDeclaration();
+    if (!decl) {
+      warnOnce(`Envelope ignored: type \`${envelope.type}\` is not found`);
+      return types;
+    }
+    const wrapper = `import(${JSON.stringify(
+      getModulePath(decl.getSourceFile()),
+    )}).${envelope.type}`;
+    const path = (envelope.unwrap ?? '')
+      .split('.')
+      .filter((e) => e)
+      .map((e) => `[${JSON.stringify(e)}]`)
+      .join('');
+    const methods: MethodDeclaration[] = [];
+    const statements = [
+      // data of promises and observables
+      'type Data<T> = T extends PromiseLike<infer U> ? Data<U> : T extends { subscribe: any; pipe: any; forEach(next: (value: infer U) => void, ...args: any[]): any } ? U : T;',
+    ];
+    for (const src of this.controllerSrcFiles) {
+      for (const type of src.getClasses()) {
+        if (!type.getDecorator('Controller') || !type.isExported()) {
+          continue;
+        }
+        const cls = `import(${JSON.stringify(getModulePath(src))}).${
+          type.isDefaultExport() ? 'default' : type.getName()
+        }`;
+        for (const method of type.getMethods()) {
+          const verb = this.getVerb(method);
+          if (
+            !verb ||
+            verb.getName() === 'Sse' ||
+            !this.isEnveloped(method, routing)
+          ) {
+            continue;
+          }
+          statements.push(
+            `export type Response${
+              methods.length
+            } = ${wrapper}<Data<ReturnType<${cls}[${JSON.stringify(
+              method.getName(),
+            )}]>>>${path};`,
+          );
+          methods.push(method);
+        }
+      }
+    }
+    const text = statements.join('\n');
+    let src = this.project.getSourceFile(EnvelopeFile);
+    if (src?.getFullText() !== text) {
+      src = this.project.createSourceFile(EnvelopeFile, text, {
+        overwrite: true,
+      });
+    }
+    methods.forEach((method, i) => {
+      types.set(method, src.getTypeAliasOrThrow(`Response${i}`).getType());
+    });
+    return types;
+  }
+
+  /**
+   * Find the exported declaration of the envelope type outside `node_modules`
+   */
+  protected getEnvelopeDeclaration():
+    | InterfaceDeclaration
+    | ClassDeclaration
+    | TypeAliasDeclaration
+    | undefined {
+    const { envelope } = this.config;
+    if (!envelope) {
+      return;
+    }
+    return this.project
+      .getSourceFiles()
+      .filter((src) => !src.isInNodeModules())
+      .map((src) => src.getExportedDeclarations().get(envelope.type)?.[0])
+      .find(
+        (
+          e,
+        ): e is
+          | InterfaceDeclaration
+          | ClassDeclaration
+          | TypeAliasDeclaration =>
+          Node.isInterfaceDeclaration(e) ||
+          Node.isClassDeclaration(e) ||
+          Node.isTypeAliasDeclaration(e),
+      );
+  }
+
+  /**
+   * Whether responses of a method are wrapped by the envelope, according to interceptors and skip decorators of the method and the controller
+   */
+  protected isEnveloped(
+    method: MethodDeclaration,
+    routing: AppRouting,
+  ): boolean {
+    const { interceptors, skip = [] } = this.config.envelope;
+    const decorators = [
+      method,
+      method.getParentIfKind(SyntaxKind.ClassDeclaration),
+    ].flatMap((e) => e?.getDecorators() ?? []);
+    const used = decorators
+      .filter((e) => e.getName() === 'UseInterceptors')
+      .flatMap((e) => e.getArguments().map((arg) => getInterceptorName(arg)));
+    if (
+      decorators.some((e) => skip.includes(e.getName())) ||
+      used.some((e) => skip.includes(e))
+    ) {
+      return false;
+    }
+    return (
+      !interceptors ||
+      interceptors.some(
+        (e) => routing.interceptors.includes(e) || used.includes(e),
+      )
+    );
+  }
+
   protected getData(
     method: MethodDeclaration,
   ): ParameterDeclaration | Parser.PartialParameterDeclaration[] | undefined {
@@ -111,10 +510,7 @@ class NestjsParser extends Parser {
     }
     const partials: Parser.PartialParameterDeclaration[] = [];
     for (const pair of pairs) {
-      const property = pair.d
-        .getArguments()[0]
-        ?.asKind(SyntaxKind.StringLiteral)
-        ?.getLiteralText();
+      const property = evaluateString(pair.d.getArguments()[0]);
       if (!property) {
         // if an injection without property name occurs(e.g. `@Body()`, `@Body(new ValidationPipe())`), return it immediately
         return pair.p;
@@ -138,10 +534,7 @@ class NestjsParser extends Parser {
     }
     const partials: Parser.PartialParameterDeclaration[] = [];
     for (const pair of pairs) {
-      const property = pair.d
-        .getArguments()[0]
-        ?.asKind(SyntaxKind.StringLiteral)
-        ?.getLiteralText();
+      const property = evaluateString(pair.d.getArguments()[0]);
       if (!property) {
         // if an injection without property name occurs(e.g. `@Query()`, `@Query(new ValidationPipe())`), return it immediately
         return pair.p;
@@ -153,6 +546,161 @@ class NestjsParser extends Parser {
     }
   }
 
+  protected getHeaderParams(
+    method: MethodDeclaration,
+  ): ParameterDeclaration | Parser.PartialParameterDeclaration[] | undefined {
+    const pairs = method
+      .getParameters()
+      .map((p) => ({ p, d: p.getDecorator('Headers') }))
+      .filter((p) => p.d);
+    if (!pairs.length) {
+      return;
+    }
+    const partials: Parser.PartialParameterDeclaration[] = [];
+    for (const pair of pairs) {
+      const property = evaluateString(pair.d.getArguments()[0]);
+      if (!property) {
+        // if an injection without property name occurs(e.g. `@Headers()`), return it immediately
+        return pair.p;
+      }
+      partials.push({ property, parameter: pair.p });
+    }
+    if (partials.length) {
+      return partials;
+    }
+  }
+
+  /**
+   * Get serialization groups from `@SerializeOptions()` of the method or the controller, if responses are serialized by `ClassSerializerInterceptor`
+   */
+  protected getGroups(
+    method: MethodDeclaration,
+    routing: AppRouting,
+  ): string[] | undefined {
+    const targets = [
+      method,
+      method.getParentIfKind(SyntaxKind.ClassDeclaration),
+    ];
+    const serialized =
+      routing.serializer ||
+      targets
+        .flatMap((e) => e?.getDecorators() ?? [])
+        .filter((e) => e.getName() === 'UseInterceptors')
+        .some((e) =>
+          e
+            .getArguments()
+            .some((arg) => arg.getText() === 'ClassSerializerInterceptor'),
+        );
+    if (!serialized) {
+      return;
+    }
+    // options of the method override the controller's
+    for (const target of targets) {
+      const groups = target
+        ?.getDecorator('SerializeOptions')
+        ?.getArguments()[0]
+        ?.asKind(SyntaxKind.ObjectLiteralExpression)
+        ?.getProperty('groups')
+        ?.asKind(SyntaxKind.PropertyAssignment)
+        ?.getInitializerIfKind(SyntaxKind.ArrayLiteralExpression);
+      if (groups) {
+        const values = groups
+          .getElements()
+          .map((e) => evaluateString(e))
+          .filter((e): e is string => e !== undefined);
+        return values.length ? values : undefined;
+      }
+    }
+  }
+
+  /**
+   * Get form fields of uploaded files from `@UploadedFile()`/`@UploadedFiles()` and file interceptors of the method or the controller
+   */
+  protected getFiles(
+    method: MethodDeclaration,
+  ): Parser.PartialParameterDeclaration[] | undefined {
+    const param = method
+      .getParameters()
+      .find(
+        (p) =>
+          p.getDecorator('UploadedFile') || p.getDecorator('UploadedFiles'),
+      );
+    if (!param) {
+      return;
+    }
+    const interceptors = [
+      method,
+      method.getParentIfKind(SyntaxKind.ClassDeclaration),
+    ]
+      .flatMap((e) => e?.getDecorators() ?? [])
+      .filter((e) => e.getName() === 'UseInterceptors')
+      .flatMap((e) => e.getArguments())
+      .filter(Node.isCallExpression);
+    const fields: { name: string; multiple: boolean; optional: boolean }[] = [];
+    for (const call of interceptors) {
+      const [arg0] = call.getArguments();
+      switch (call.getExpression().getText()) {
+        case 'FileInterceptor':
+        case 'FilesInterceptor': {
+          const name = evaluateString(arg0);
+          if (name) {
+            fields.push({
+              name,
+              multiple: call.getExpression().getText() === 'FilesInterceptor',
+              optional: param.isOptional(),
+            });
+          }
+          break;
+        }
+        case 'FileFieldsInterceptor':
+          for (const element of arg0
+            ?.asKind(SyntaxKind.ArrayLiteralExpression)
+            ?.getElements() ?? []) {
+            const field = element.asKind(SyntaxKind.ObjectLiteralExpression);
+            const name = evaluateString(
+              field
+                ?.getProperty('name')
+                ?.asKind(SyntaxKind.PropertyAssignment)
+                ?.getInitializer(),
+            );
+            const maxCount = evaluateString(
+              field
+                ?.getProperty('maxCount')
+                ?.asKind(SyntaxKind.PropertyAssignment)
+                ?.getInitializer(),
+            );
+            if (name) {
+              fields.push({ name, multiple: maxCount !== '1', optional: true });
+            }
+          }
+          break;
+        case 'AnyFilesInterceptor':
+          fields.push({
+            name: 'files',
+            multiple: true,
+            optional: param.isOptional(),
+          });
+          break;
+      }
+    }
+    if (!fields.length) {
+      // no interceptor found, the parameter name is used as field name
+      fields.push({
+        name: param.getName(),
+        multiple: !!param.getDecorator('UploadedFiles'),
+        optional: param.isOptional(),
+      });
+    }
+    return fields.map(({ name, multiple, optional }) => ({
+      property: name,
+      parameter: new SyntheticParameter(
+        toIdentifier(name),
+        this.getKeywordType(multiple ? 'blobs' : 'blob'),
+        optional,
+      ),
+    }));
+  }
+
   protected getParams(
     method: MethodDeclaration,
   ): Parser.PartialParameterDeclaration[] | undefined {
@@ -165,10 +713,7 @@ class NestjsParser extends Parser {
     }
     const partials: Parser.PartialParameterDeclaration[] = [];
     for (const pair of pairs) {
-      const property = pair.d
-        .getArguments()[0]
-        ?.asKind(SyntaxKind.StringLiteral)
-        ?.getLiteralText();
+      const property = evaluateString(pair.d.getArguments()[0]);
       if (!property) {
         // if an injection without property name occurs(e.g. `@Param()`, `@Param(new ValidationPipe())`), throw an exception
         throw new Error('`@Param()` without property name is not supported');
@@ -203,30 +748,239 @@ class NestjsParser extends Parser {
   }
 }
 
-function getLiteralPath(node: Node<ts.Node>, allowObject?: boolean) {
+/**
+ * Get the class name of an interceptor, e.g. `TransformInterceptor` from `new TransformInterceptor()`
+ */
+function getInterceptorName(node: Node): string {
+  return Node.isNewExpression(node)
+    ? node.getExpression().getText()
+    : node.getText();
+}
+
+/**
+ * Absolute module path of a source file for `import()` types
+ */
+function getModulePath(src: SourceFile): string {
+  return src.getFilePath().replace(/(\.d)?\.[cm]?[jt]sx?$/, '');
+}
+
+function getLiteralPath(node: Node<ts.Node>, allowObject?: boolean): string {
   switch (node.getKind()) {
-    case SyntaxKind.StringLiteral:
-      return node.asKind(SyntaxKind.StringLiteral).getLiteralText();
     case SyntaxKind.ArrayLiteralExpression:
       return node
         .asKind(SyntaxKind.ArrayLiteralExpression)
         .getElements()
-        .map((e) => e.asKind(SyntaxKind.StringLiteral).getLiteralText())
+        .map((e) => getLiteralPath(e))
         .join('/');
     case SyntaxKind.ObjectLiteralExpression:
       if (!allowObject) {
-        throw new Error('unknown argument type');
+        throw new Error(
+          `unknown argument type \`${node.getText()}\` at ${getLocation(node)}`,
+        );
       }
-      return getLiteralPath(
-        node.asKind(SyntaxKind.ObjectLiteralExpression).getProperty('path'),
-      );
+      const path = node
+        .asKind(SyntaxKind.ObjectLiteralExpression)
+        .getProperty('path');
+      return path ? getLiteralPath(path) : '';
     case SyntaxKind.PropertyAssignment:
       return getLiteralPath(
         node.asKind(SyntaxKind.PropertyAssignment).getInitializer(),
       );
     default:
-      throw new Error('unknown argument type');
+      const value = evaluateString(node);
+      if (value === undefined) {
+        throw new Error(
+          `cannot resolve path \`${node.getText()}\` at ${getLocation(node)}`,
+        );
+      }
+      return value;
+  }
+}
+
+/**
+ * Prepend global prefix and uri version to a path
+ * @param path Path to prepend
+ * @param versions Controller/method versions
+ * @param routing App routing options
+ * @param routePath Full route path to check global prefix excludes
+ */
+function getPrefixedPath(
+  path: string,
+  versions: Versions | undefined,
+  routing: AppRouting,
+  routePath?: string,
+): string {
+  const { versioning } = routing;
+  const prefix =
+    routePath && isExcluded(routePath, routing) ? '' : routing.globalPrefix;
+  let versionPrefix = '';
+  if (versioning?.type === 'uri') {
+    const version = getVersion(
+      versions !== undefined ? versions : getDefaultVersions(versioning),
+    );
+    if (version) {
+      versionPrefix =
+        (versioning.prefix === false ? '' : versioning.prefix ?? 'v') + version;
+    }
+  }
+  return joinPaths(prefix, versionPrefix, path);
+}
+
+function isExcluded(path: string, routing: AppRouting): boolean {
+  const trimmed = trimSlashes(path);
+  return routing.excludes.some((e) => trimSlashes(e) === trimmed);
+}
+
+function trimSlashes(path: string): string {
+  return path.replace(/^\/+|\/+$/g, '');
+}
+
+function getDefaultVersions(
+  versioning: Config.NestjsInput.Versioning | undefined,
+): Versions | undefined {
+  if (!versioning || versioning.defaultVersion === undefined) {
+    return;
+  }
+  const { defaultVersion } = versioning;
+  return Array.isArray(defaultVersion) ? defaultVersion : [defaultVersion];
+}
+
+/**
+ * Pick the version to request. The highest one is used if multiple versions are supported
+ */
+function getVersion(versions: Versions | undefined): string | undefined {
+  if (!versions || !versions.length) {
+    return;
+  }
+  return versions
+    .slice()
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+    .pop();
+}
+
+function getControllerVersions(deco: Decorator): Versions | undefined {
+  const version = deco
+    .getArguments()[0]
+    ?.asKind(SyntaxKind.ObjectLiteralExpression)
+    ?.getProperty('version')
+    ?.asKind(SyntaxKind.PropertyAssignment)
+    ?.getInitializer();
+  return version && getVersions(version);
+}
+
+function getMethodVersions(method: MethodDeclaration): Versions | undefined {
+  const version = method.getDecorator('Version')?.getArguments()[0];
+  return version && getVersions(version);
+}
+
+function getVersions(node: Node): Versions {
+  if (Node.isArrayLiteralExpression(node)) {
+    return node.getElements().flatMap((e) => getVersions(e) ?? []);
+  }
+  if (node.getText() === 'VERSION_NEUTRAL') {
+    return null;
+  }
+  return [getLiteralPath(node)];
+}
+
+function getVersioning(node: Node | undefined): Config.NestjsInput.Versioning {
+  // defaults to uri versioning
+  const versioning: Config.NestjsInput.Versioning = { type: 'uri' };
+  if (!Node.isObjectLiteralExpression(node)) {
+    return versioning;
   }
+  for (const prop of node.getProperties()) {
+    if (!Node.isPropertyAssignment(prop)) {
+      continue;
+    }
+    const init = prop.getInitializer();
+    switch (prop.getName()) {
+      case 'type':
+        versioning.type =
+          VersioningTypes[init.getText().split('.').pop()] ?? 'custom';
+        break;
+      case 'prefix':
+        versioning.prefix =
+          init.getKind() === SyntaxKind.FalseKeyword
+            ? false
+            : getLiteralPath(init);
+        break;
+      case 'header':
+        versioning.header = getLiteralPath(init);
+        break;
+      case 'key':
+        versioning.key = getLiteralPath(init);
+        break;
+      case 'defaultVersion':
+        const versions = getVersions(init);
+        versioning.defaultVersion = versions ?? undefined;
+        break;
+    }
+  }
+  return versioning;
+}
+
+function getGlobalPrefixExcludes(node: Node | undefined): string[] {
+  const excludes = node
+    ?.asKind(SyntaxKind.ObjectLiteralExpression)
+    ?.getProperty('exclude')
+    ?.asKind(SyntaxKind.PropertyAssignment)
+    ?.getInitializerIfKind(SyntaxKind.ArrayLiteralExpression);
+  return (excludes?.getElements() ?? []).map((e) => getLiteralPath(e, true));
+}
+
+/**
+ * Collect module paths from `RouterModule.register(routes)`
+ */
+function addModulePaths(
+  node: Node | undefined,
+  parentPath: string,
+  modulePaths: Map<ClassDeclaration, string>,
+): void {
+  if (Node.isIdentifier(node)) {
+    const decl = getDeclaration(node);
+    if (Node.isClassDeclaration(decl)) {
+      // module in `children`
+      modulePaths.set(decl, parentPath);
+    } else if (Node.isVariableDeclaration(decl)) {
+      // routes defined as a variable
+      addModulePaths(decl.getInitializer(), parentPath, modulePaths);
+    }
+  } else if (Node.isArrayLiteralExpression(node)) {
+    for (const element of node.getElements()) {
+      addModulePaths(element, parentPath, modulePaths);
+    }
+  } else if (Node.isObjectLiteralExpression(node)) {
+    const getProperty = (name: string) =>
+      node
+        .getProperty(name)
+        ?.asKind(SyntaxKind.PropertyAssignment)
+        ?.getInitializer();
+    const pathNode = getProperty('path');
+    const path = joinPaths(
+      parentPath,
+      pathNode ? getLiteralPath(pathNode) : '',
+    );
+    const mod = getProperty('module');
+    const decl = mod && getDeclaration(mod);
+    if (Node.isClassDeclaration(decl)) {
+      modulePaths.set(decl, path);
+    }
+    addModulePaths(getProperty('children'), path, modulePaths);
+  }
+}
+
+/**
+ * Convert a form field name to a parameter name(e.g. `cover-image` => `coverImage`)
+ */
+function toIdentifier(name: string): string {
+  const identifier = name
+    .replace(
+      /[^\w$]+(.)?/g,
+      (_, c: string | undefined) => c?.toUpperCase() ?? '',
+    )
+    .replace(/^\d/, '_$&');
+  return identifier || 'file';
 }
 
 export default NestjsParser;
@@ -0,0 +1,264 @@
+import {
+  ClassDeclaration,
+  Decorator,
+  MethodDeclaration,
+  Node,
+  ParameterDeclaration,
+  SyntaxKind,
+  ts,
+  Type,
+  TypeFormatFlags,
+} from 'ts-morph';
+import { Config } from '../config';
+import { Parser } from '../types';
+import { SourceParser } from './source';
+import {
+  evaluateString,
+  getLocation,
+  joinPaths,
+  SyntheticParameter,
+  warnOnce,
+} from './utils';
+
+const ControllerDecoratorNames = ['JsonController', 'Controller'];
+
+const MethodDecoratorNames = [
+  'Get',
+  'Post',
+  'Put',
+  'Patch',
+  'Delete',
+  'Head',
+  'All',
+  'Method',
+];
+
+class RoutingControllersParser extends SourceParser<Config.RoutingControllersInput> {
+  *getControllers(): Iterable<Parser.Controller> {
+    for (const src of this.controllerSrcFiles) {
+      for (const type of src.getClasses()) {
+        const deco = type.getDecorator((e) =>
+          ControllerDecoratorNames.includes(e.getName()),
+        );
+        if (!deco) {
+          continue;
+        }
+        const [name] = src.getBaseNameWithoutExtension().split('.', 1);
+        let path: string;
+        try {
+          path = getPath(deco.getArguments()[0]);
+        } catch (error) {
+          // skip this controller only
+          warnOnce(`Controller skipped: ${error.message}`);
+          continue;
+        }
+        yield {
+          name,
+          className: type.getName(),
+          baseUrl: joinPaths(this.config.routePrefix, path),
+          docs: type.getJsDocs(),
+          requests: this.getRequests(type, deco),
+        };
+      }
+    }
+  }
+
+  protected *getRequests(
+    type: ClassDeclaration,
+    controller: Decorator,
+  ): Iterable<Parser.Request> {
+    for (const method of type.getMethods()) {
+      const verb = method.getDecorator((e) =>
+        MethodDecoratorNames.includes(e.getName()),
+      );
+      if (!verb) {
+        continue;
+      }
+      let request: Parser.Request;
+      try {
+        request = this.getRequest(method, verb, controller);
+      } catch (error) {
+        // skip this endpoint only
+        warnOnce(`Endpoint skipped: ${error.message}`);
+        continue;
+      }
+      yield request;
+    }
+  }
+
+  protected getRequest(
+    method: MethodDeclaration,
+    verb: Decorator,
+    controller: Decorator,
+  ): Parser.Request {
+    const args = verb.getArguments();
+    // `@Method('get', path)`
+    const custom = verb.getName() === 'Method';
+    const name = custom ? evaluateString(args[0]) : verb.getName();
+    if (!name) {
+      throw new Error(
+        `cannot resolve method \`${args[0]?.getText()}\` at ${getLocation(
+          verb,
+        )}`,
+      );
+    }
+    const params = this.getParameters(method, 'Param', 'Params');
+    if (params && !Array.isArray(params)) {
+      throw new Error('`@Params()` is not supported');
+    }
+    return {
+      name: method.getName(),
+      url: getPath(args[custom ? 1 : 0]),
+      method: name.toLowerCase(),
+      params: params as Parser.PartialParameterDeclaration[],
+      query: this.getParameters(method, 'QueryParam', 'QueryParams'),
+      data: this.getParameters(method, 'BodyParam', 'Body'),
+      headerParams: this.getParameters(method, 'HeaderParam', 'HeaderParams'),
+      files: this.getFiles(method),
+      groups: this.getGroups(method, controller),
+      res: this.getReturnType(method),
+      docs: method.getJsDocs(),
+      func: method,
+    };
+  }
+
+  /**
+   * Get parameters injected as a whole(e.g. `@QueryParams()`) or by property names(e.g. `@QueryParam('page')`)
+   * @param partial Name of the decorator injecting a property
+   * @param whole Name of the decorator injecting the whole object
+   */
+  protected getParameters(
+    method: MethodDeclaration,
+    partial: string,
+    whole: string,
+  ): ParameterDeclaration | Parser.PartialParameterDeclaration[] | undefined {
+    const parameters = method.getParameters();
+    const wholeParam = parameters.find((e) => e.getDecorator(whole));
+    if (wholeParam) {
+      // properties are not merged into the type of the whole object
+      for (const param of parameters) {
+        const deco = param.getDecorator(partial);
+        if (deco) {
+          warnOnce(
+            `Parameter ignored: \`${deco.getText()}\` at ${getLocation(
+              deco,
+            )} is not included in \`@${whole}()\``,
+          );
+        }
+      }
+      return wholeParam;
+    }
+    const partials: Parser.PartialParameterDeclaration[] = [];
+    for (const param of parameters) {
+      const deco = param.getDecorator(partial);
+      if (!deco) {
+        continue;
+      }
+      const property = evaluateString(deco.getArguments()[0]);
+      if (!property) {
+        throw new Error(
+          `cannot resolve property of \`${deco.getText()}\` at ${getLocation(
+            deco,
+          )}`,
+        );
+      }
+      partials.push({ property, parameter: param });
+    }
+    if (partials.length) {
+      return partials;
+    }
+  }
+
+  /**
+   * Get form fields of uploaded files from `@UploadedFile(name)`/`@UploadedFiles(name)`
+   */
+  protected getFiles(
+    method: MethodDeclaration,
+  ): Parser.PartialParameterDeclaration[] | undefined {
+    const files: Parser.PartialParameterDeclaration[] = [];
+    for (const param of method.getParameters()) {
+      const deco =
+        param.getDecorator('UploadedFile') ||
+        param.getDecorator('UploadedFiles');
+      const property = evaluateString(deco?.getArguments()[0]);
+      if (!property) {
+        continue;
+      }
+      files.push({
+        property,
+        parameter: new SyntheticParameter(
+          param.getName(),
+          this.getKeywordType(
+            deco.getName() === 'UploadedFiles' ? 'blobs' : 'blob',
+          ),
+          param.isOptional(),
+        ),
+      });
+    }
+    if (files.length) {
+      return files;
+    }
+  }
+
+  /**
+   * Get class-transformer groups from `@ResponseClassTransformOptions({ groups })`, unless the controller disables `transformResponse`
+   */
+  protected getGroups(
+    method: MethodDeclaration,
+    controller: Decorator,
+  ): string[] | undefined {
+    const options = controller
+      .getArguments()[1]
+      ?.asKind(SyntaxKind.ObjectLiteralExpression);
+    if (
+      options
+        ?.getProperty('transformResponse')
+        ?.asKind(SyntaxKind.PropertyAssignment)
+        ?.getInitializer()
+        ?.getText() === 'false'
+    ) {
+      return;
+    }
+    const groups = method
+      .getDecorator('ResponseClassTransformOptions')
+      ?.getArguments()[0]
+      ?.asKind(SyntaxKind.ObjectLiteralExpression)
+      ?.getProperty('groups')
+      ?.asKind(SyntaxKind.PropertyAssignment)
+      ?.getInitializerIfKind(SyntaxKind.ArrayLiteralExpression);
+    const values = groups
+      ?.getElements()
+      .map((e) => evaluateString(e))
+      .filter((e): e is string => e !== undefined);
+    return values?.length ? values : undefined;
+  }
+
+  protected getReturnType(method: MethodDeclaration): Type<ts.Type> {
+    const type = method.getReturnType();
+    const targetType = type.getTargetType();
+    if (targetType) {
+      if (targetType.getText(null, TypeFormatFlags.None) === 'Promise<T>') {
+        return type.getTypeArguments()[0];
+      }
+    }
+    return type;
+  }
+}
+
+/**
+ * Get a route path. Regular expressions can not be converted to urls
+ */
+function getPath(node: Node | undefined): string {
+  if (!node) {
+    return '';
+  }
+  const value = evaluateString(node);
+  if (value === undefined) {
+    throw new Error(
+      `cannot resolve path \`${node.getText()}\` at ${getLocation(node)}`,
+    );
+  }
+  return value;
+}
+
+export default RoutingControllersParser;
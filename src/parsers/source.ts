@@ -0,0 +1,97 @@
+import {
+  ClassDeclaration,
+  EnumDeclaration,
+  InterfaceDeclaration,
+  Project,
+  SourceFile,
+  ts,
+  Type,
+  TypeAliasDeclaration,
+} from 'ts-morph';
+import { Config } from '../config';
+import { Parser } from '../types';
+import {
+  createProject,
+  getExportedTypes,
+  getReachableTypes,
+  refreshSourceFiles,
+} from './utils';
+
+/**
+ * In-memory file declaring values of types parsers refer to(e.g. uploaded files)
+ */
+const KeywordsFile = '__node2api_keywords__.ts';
+
+const Keywords = {
+  blob: 'Blob',
+  blobs: 'Blob[]',
+  string: 'string',
+  any: 'any',
+};
+
+/**
+ * Base of parsers reading controllers from `sources` and types from `types` in a project.
+ * The project is reused between runs so that only changed files are reloaded
+ */
+export abstract class SourceParser<
+  T extends
+    | Config.NestjsInput
+    | Config.ExpressInput
+    | Config.RoutingControllersInput,
+> extends Parser {
+  protected readonly project: Project;
+  /**
+   * Files of `sources`, which declare controllers or routers
+   */
+  protected controllerSrcFiles: Iterable<SourceFile>;
+  protected typeSrcFiles: Iterable<SourceFile>;
+  private readonly keywordsSrc: SourceFile;
+
+  constructor(protected readonly config: T) {
+    super(config);
+    this.project = createProject(config);
+    this.loadSourceFiles();
+    this.keywordsSrc = this.project.createSourceFile(
+      KeywordsFile,
+      Object.entries(Keywords)
+        .map(([name, type]) => `declare const ${name}: ${type};`)
+        .join(' '),
+      { overwrite: true },
+    );
+  }
+
+  refresh(files: string[]): void {
+    refreshSourceFiles(this.project, files);
+    this.loadSourceFiles();
+  }
+
+  *getTypes(): Iterable<
+    | EnumDeclaration
+    | InterfaceDeclaration
+    | ClassDeclaration
+    | TypeAliasDeclaration
+  > {
+    if (this.config.typeResolution === 'reachable') {
+      yield* getReachableTypes(this.getControllers());
+    } else {
+      yield* getExportedTypes(this.typeSrcFiles);
+    }
+  }
+
+  protected loadSourceFiles(): void {
+    // files already in the project are reused
+    this.controllerSrcFiles = this.project.addSourceFilesAtPaths(
+      this.config.sources,
+    );
+    this.typeSrcFiles = this.project.addSourceFilesAtPaths(
+      this.config.types ?? [],
+    );
+  }
+
+  /**
+   * Get the type of a keyword, e.g. `Blob` of `blob`
+   */
+  protected getKeywordType(name: keyof typeof Keywords): Type<ts.Type> {
+    return this.keywordsSrc.getVariableDeclarationOrThrow(name).getType();
+  }
+}
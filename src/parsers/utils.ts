@@ -0,0 +1,487 @@
+import { existsSync, readFileSync, statSync } from 'fs';
+import { dirname, join, relative, resolve } from 'path';
+import {
+  ClassDeclaration,
+  EnumDeclaration,
+  InterfaceDeclaration,
+  Node,
+  Project,
+  SourceFile,
+  Symbol,
+  SyntaxKind,
+  ts,
+  Type,
+  TypeAliasDeclaration,
+} from 'ts-morph';
+import { Config } from '../config';
+import { Parser } from '../types';
+
+/**
+ * Parameter which does not come from a parameter declaration(e.g. a path param of an express route)
+ */
+export class SyntheticParameter implements Parser.Parameter {
+  constructor(
+    private readonly name: string,
+    private readonly type: Type<ts.Type>,
+    private readonly optional?: boolean,
+  ) {}
+
+  getName(): string {
+    return this.name;
+  }
+
+  getType(): Type<ts.Type> {
+    return this.type;
+  }
+
+  isOptional(): boolean {
+    return !!this.optional;
+  }
+}
+
+/**
+ * Create a project with compiler options of `tsconfig` if specified
+ */
+export function createProject(config: Config.SourceInput): Project {
+  if (!config.tsconfig) {
+    // nullable types are kept by checker types, which schemas are built from
+    return new Project({ compilerOptions: { strictNullChecks: true } });
+  }
+  const parsed = parseTsconfig(resolve(config.tsconfig));
+  const paths = { ...parsed.options.paths };
+  for (const ref of parsed.projectReferences ?? []) {
+    for (const [name, targets] of Object.entries(getReferencePaths(ref.path))) {
+      paths[name] ??= targets;
+    }
+  }
+  return new Project({
+    tsConfigFilePath: config.tsconfig,
+    skipAddingFilesFromTsConfig: true,
+    compilerOptions: Object.keys(paths).length ? { paths } : {},
+  });
+}
+
+function parseTsconfig(path: string): ts.ParsedCommandLine {
+  return ts.getParsedCommandLineOfConfigFile(path, undefined, {
+    ...ts.sys,
+    onUnRecoverableConfigFileDiagnostic: (diagnostic) => {
+      throw new Error(
+        ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+      );
+    },
+  });
+}
+
+/**
+ * Map the package of a referenced project to its sources, so that it need not be built.
+ * The entry(`types` of `package.json`) is mapped from `outDir` to `rootDir`
+ */
+function getReferencePaths(path: string): Record<string, string[]> {
+  const configPath =
+    existsSync(path) && statSync(path).isDirectory()
+      ? join(path, 'tsconfig.json')
+      : path;
+  const pkgPath = join(dirname(configPath), 'package.json');
+  if (!existsSync(configPath) || !existsSync(pkgPath)) {
+    return {};
+  }
+  const pkg = JSON.parse(readFileSync(pkgPath, 'utf-8'));
+  const { options } = parseTsconfig(configPath);
+  const entry = pkg.types ?? pkg.typings ?? pkg.main;
+  if (!pkg.name || !entry || !options.outDir) {
+    return {};
+  }
+  const rootDir = options.rootDir ?? dirname(configPath);
+  const outPath = relative(options.outDir, resolve(dirname(configPath), entry));
+  if (outPath.startsWith('..')) {
+    return {};
+  }
+  const source = join(rootDir, outPath).replace(/(\.d)?\.[cm]?[jt]sx?$/, '');
+  return {
+    [pkg.name]: [source],
+    [`${pkg.name}/*`]: [join(rootDir, '*')],
+  };
+}
+
+/**
+ * Get exported interfaces/enums/classes/type aliases from source files
+ */
+export function* getExportedTypes(
+  srcFiles: Iterable<SourceFile>,
+): Iterable<
+  | EnumDeclaration
+  | InterfaceDeclaration
+  | ClassDeclaration
+  | TypeAliasDeclaration
+> {
+  for (const src of srcFiles) {
+    yield* src.getEnums().filter((type) => type.isExported());
+    yield* src.getInterfaces().filter((type) => type.isExported());
+    yield* src.getClasses().filter((type) => type.isExported());
+    yield* src.getTypeAliases().filter((type) => type.isExported());
+  }
+}
+
+/**
+ * Get declarations referenced by requests, following references recursively.
+ * Declarations from default libraries and global declarations are skipped
+ */
+export function* getReachableTypes(
+  controllers: Iterable<Parser.Controller>,
+): Iterable<
+  | EnumDeclaration
+  | InterfaceDeclaration
+  | ClassDeclaration
+  | TypeAliasDeclaration
+> {
+  const collector = new TypeCollector();
+  for (const controller of controllers) {
+    for (const request of controller.requests) {
+      for (const parameter of getRequestParameters(request)) {
+        collector.addType(parameter.getType());
+      }
+      collector.addType(request.res);
+    }
+  }
+  collector.reportClashes();
+  yield* collector.getDeclarations();
+}
+
+type TypeDeclaration =
+  | EnumDeclaration
+  | InterfaceDeclaration
+  | ClassDeclaration
+  | TypeAliasDeclaration;
+
+class TypeCollector {
+  private readonly symbols = new Map<string, Symbol>();
+  private readonly declarations = new Set<TypeDeclaration>();
+  private readonly clashes = new Map<string, Set<string>>();
+  private readonly visitedTypes = new Set<Type<ts.Type>>();
+
+  getDeclarations(): Iterable<TypeDeclaration> {
+    return this.declarations;
+  }
+
+  addType(type: Type<ts.Type>): void {
+    if (this.visitedTypes.has(type)) {
+      return;
+    }
+    this.visitedTypes.add(type);
+    this.addSymbol(type.getAliasSymbol());
+    this.addSymbol(type.getSymbol());
+    for (const arg of [
+      ...type.getAliasTypeArguments(),
+      ...type.getTypeArguments(),
+    ]) {
+      this.addType(arg);
+    }
+    if (type.isUnion()) {
+      type.getUnionTypes().forEach((e) => this.addType(e));
+    } else if (type.isIntersection()) {
+      type.getIntersectionTypes().forEach((e) => this.addType(e));
+    } else if (type.isTuple()) {
+      type.getTupleElements().forEach((e) => this.addType(e));
+    } else if (type.isAnonymous() && !type.getAliasSymbol()) {
+      // inline object literal types
+      for (const prop of type.getProperties()) {
+        const decl = prop.getValueDeclaration();
+        if (decl) {
+          this.addType(prop.getTypeAtLocation(decl));
+        }
+      }
+    }
+  }
+
+  reportClashes(): void {
+    for (const [name, files] of this.clashes) {
+      warnOnce(
+        `Type "${name}" is declared in multiple files, only the first one is emitted:\n${Array.from(
+          files,
+        )
+          .map((e) => '  ' + e)
+          .join('\n')}`,
+      );
+    }
+  }
+
+  private addSymbol(symbol: Symbol | undefined): void {
+    if (!symbol) {
+      return;
+    }
+    if (symbol.isAlias()) {
+      symbol = symbol.getAliasedSymbol();
+    }
+    const decls = symbol
+      .getDeclarations()
+      .map((e) => (Node.isEnumMember(e) ? e.getParent() : e))
+      .filter(isTypeDeclaration)
+      .filter((e) => !isGlobalDeclaration(e));
+    if (!decls.length) {
+      return;
+    }
+    const name = decls[0].getName();
+    const existing = this.symbols.get(name);
+    if (existing) {
+      if (existing !== symbol && existing.getDeclarations()[0] !== decls[0]) {
+        if (!this.clashes.has(name)) {
+          this.clashes.set(
+            name,
+            new Set([
+              existing.getDeclarations()[0].getSourceFile().getFilePath(),
+            ]),
+          );
+        }
+        this.clashes.get(name).add(decls[0].getSourceFile().getFilePath());
+      }
+      return;
+    }
+    this.symbols.set(name, symbol);
+    for (const decl of decls) {
+      this.declarations.add(decl);
+      this.addReferences(decl);
+    }
+  }
+
+  /**
+   * Follow type references in the declaration text, which is what writers copy
+   */
+  private addReferences(decl: TypeDeclaration): void {
+    for (const node of decl.getDescendants()) {
+      if (Node.isDecorator(node)) {
+        continue;
+      }
+      let name: Node | undefined;
+      if (Node.isTypeReference(node)) {
+        name = node.getTypeName();
+      } else if (Node.isExpressionWithTypeArguments(node)) {
+        name = node.getExpression();
+      } else if (Node.isTypeQuery(node)) {
+        name = node.getExprName();
+      }
+      if (Node.isQualifiedName(name)) {
+        name = name.getRight();
+      } else if (Node.isPropertyAccessExpression(name)) {
+        name = name.getNameNode();
+      }
+      if (name) {
+        this.addSymbol(name.getSymbol());
+      }
+    }
+  }
+}
+
+function isTypeDeclaration(node: Node): node is TypeDeclaration {
+  return (
+    Node.isEnumDeclaration(node) ||
+    Node.isInterfaceDeclaration(node) ||
+    Node.isClassDeclaration(node) ||
+    Node.isTypeAliasDeclaration(node)
+  );
+}
+
+/**
+ * Declarations available without imports, e.g. `Date` from default libraries or `Buffer` from `@types/node`
+ */
+function isGlobalDeclaration(node: Node): boolean {
+  const src = node.getSourceFile();
+  const program = node.getProject().getProgram().compilerObject;
+  if (program.isSourceFileDefaultLibrary(src.compilerNode)) {
+    return true;
+  }
+  if (!ts.isExternalModule(src.compilerNode)) {
+    return true;
+  }
+  return node
+    .getAncestors()
+    .some((e) => Node.isModuleDeclaration(e) && e.getName() === 'global');
+}
+
+function* getRequestParameters(
+  request: Parser.Request,
+): Iterable<Parser.Parameter> {
+  for (const group of [
+    request.params,
+    request.query,
+    request.data,
+    request.headerParams,
+  ]) {
+    if (!group) {
+      continue;
+    }
+    if (Array.isArray(group)) {
+      yield* group.map((e) => e.parameter);
+    } else {
+      yield group;
+    }
+  }
+}
+
+const warnings = new Set<string>();
+
+/**
+ * Print a warning. The same warning is printed only once until files are refreshed
+ */
+export function warnOnce(message: string): void {
+  if (!warnings.has(message)) {
+    warnings.add(message);
+    console.warn(message);
+  }
+}
+
+/**
+ * Reload files from filesystem if they are already in the project. Files no longer existing are removed
+ */
+export function refreshSourceFiles(project: Project, files: string[]): void {
+  warnings.clear();
+  for (const file of files) {
+    const src = project.getSourceFile(file);
+    if (!src) {
+      continue;
+    }
+    if (existsSync(file)) {
+      src.refreshFromFileSystemSync();
+    } else {
+      project.removeSourceFile(src);
+    }
+  }
+}
+
+/**
+ * Resolve the declaration of an identifier, following imports and default exports
+ */
+export function getDeclaration(node: Node): Node | undefined {
+  let symbol = node.getSymbol();
+  if (!symbol) {
+    return;
+  }
+  if (symbol.isAlias()) {
+    symbol = symbol.getAliasedSymbol();
+  }
+  const [decl] = symbol?.getDeclarations() ?? [];
+  if (Node.isExportAssignment(decl)) {
+    return getDeclaration(decl.getExpression());
+  }
+  return decl;
+}
+
+/**
+ * Evaluate an expression into a string by following constants, enum members, template literals and concatenations
+ * @returns `undefined` if the expression cannot be evaluated statically
+ */
+export function evaluateString(node: Node | undefined): string | undefined {
+  const value = evaluate(node, new Set());
+  return value === undefined ? undefined : String(value);
+}
+
+/**
+ * @param visited Nodes being evaluated, to stop on circular references. A constant may be used several times in an expression
+ */
+function evaluate(
+  node: Node | undefined,
+  visited: Set<Node>,
+): string | number | undefined {
+  if (!node || visited.has(node)) {
+    return;
+  }
+  visited.add(node);
+  try {
+    return evaluateNode(node, visited);
+  } finally {
+    visited.delete(node);
+  }
+}
+
+function evaluateNode(
+  node: Node,
+  visited: Set<Node>,
+): string | number | undefined {
+  if (
+    Node.isStringLiteral(node) ||
+    Node.isNoSubstitutionTemplateLiteral(node)
+  ) {
+    return node.getLiteralText();
+  }
+  if (Node.isNumericLiteral(node)) {
+    return node.getLiteralValue();
+  }
+  if (Node.isTemplateExpression(node)) {
+    let value = node.getHead().getLiteralText();
+    for (const span of node.getTemplateSpans()) {
+      const exp = evaluate(span.getExpression(), visited);
+      if (exp === undefined) {
+        return;
+      }
+      value += exp + span.getLiteral().getLiteralText();
+    }
+    return value;
+  }
+  if (Node.isBinaryExpression(node)) {
+    if (node.getOperatorToken().getKind() !== SyntaxKind.PlusToken) {
+      return;
+    }
+    const left = evaluate(node.getLeft(), visited);
+    const right = evaluate(node.getRight(), visited);
+    if (left === undefined || right === undefined) {
+      return;
+    }
+    // `+` of two numbers adds, otherwise it concatenates like JS does
+    if (typeof left === 'number' && typeof right === 'number') {
+      return left + right;
+    }
+    return String(left) + String(right);
+  }
+  if (
+    Node.isParenthesizedExpression(node) ||
+    Node.isAsExpression(node) ||
+    Node.isTypeAssertion(node) ||
+    Node.isNonNullExpression(node)
+  ) {
+    return evaluate(node.getExpression(), visited);
+  }
+  if (
+    Node.isIdentifier(node) ||
+    Node.isPropertyAccessExpression(node) ||
+    Node.isElementAccessExpression(node)
+  ) {
+    const decl = getDeclaration(
+      Node.isPropertyAccessExpression(node) ? node.getNameNode() : node,
+    );
+    let value: string | number | undefined;
+    if (Node.isEnumMember(decl)) {
+      value = decl.getValue();
+    } else if (
+      Node.isVariableDeclaration(decl) ||
+      Node.isPropertyAssignment(decl) ||
+      Node.isPropertyDeclaration(decl)
+    ) {
+      value = evaluate(decl.getInitializer(), visited);
+    }
+    if (value !== undefined) {
+      return value;
+    }
+  }
+  // literal types(e.g. `as const` objects)
+  const type = node.getType();
+  if (type.isStringLiteral() || type.isNumberLiteral()) {
+    return type.getLiteralValue() as string | number;
+  }
+}
+
+/**
+ * Get `file:line` of a node for messages
+ */
+export function getLocation(node: Node): string {
+  const file = relative(process.cwd(), node.getSourceFile().getFilePath());
+  return `${file}:${node.getStartLineNumber()}`;
+}
+
+/**
+ * Join url paths into one starting with `/`, without duplicated or trailing slashes
+ */
+export function joinPaths(...args: string[]): string {
+  return ['', ...args, '']
+    .join('/')
+    .replace(/\/{2,}/g, '/')
+    .replace(/(.+)\/$/, '$1');
+}
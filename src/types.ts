@@ -1,17 +1,32 @@
+import { existsSync, mkdirSync, unlinkSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
 import type {
+  ArrowFunction,
   ClassDeclaration,
   EnumDeclaration,
+  FunctionDeclaration,
+  FunctionExpression,
   InterfaceDeclaration,
   JSDoc,
   MethodDeclaration,
-  ParameterDeclaration,
   ts,
   Type,
   TypeAliasDeclaration,
 } from 'ts-morph';
 import { Config } from './config';
+import { transformControllers } from './naming';
+
+/**
+ * Version of the plugin API(`Parser`/`Writer` and their namespaces). Bumped on breaking changes
+ */
+export const apiVersion = 1;
 
 export abstract class Parser {
+  /**
+   * Plugin API version the parser is built against
+   */
+  static readonly apiVersion = apiVersion;
+
   constructor(protected readonly config: Config.Input) {}
 
   /**
@@ -28,39 +43,128 @@ export abstract class Parser {
     | ClassDeclaration
     | TypeAliasDeclaration
   >;
+
+  /**
+   * Reload changed source files from filesystem
+   * @param files Absolute paths of added/changed/removed files
+   */
+  abstract refresh(files: string[]): void;
 }
 
 export namespace Parser {
   export interface Controller {
     name: string;
+    /**
+     * Name of the controller class or router variable
+     */
+    className?: string;
     baseUrl: string;
     docs: JSDoc[];
     requests: Iterable<Request>;
   }
   export interface Request {
+    name: string;
     url: string;
+    /**
+     * Overrides controller base url(e.g. a method with its own version)
+     */
+    baseUrl?: string;
     method: string;
+    /**
+     * Headers sent with the request(e.g. version header)
+     */
+    headers?: Record<string, string>;
     params?: PartialParameterDeclaration[];
-    query?: ParameterDeclaration | PartialParameterDeclaration[];
-    data?: ParameterDeclaration | PartialParameterDeclaration[];
+    query?: Parameter | PartialParameterDeclaration[];
+    data?: Parameter | PartialParameterDeclaration[];
+    /**
+     * Headers from parameters(e.g. `@Headers('x-tenant')`)
+     */
+    headerParams?: Parameter | PartialParameterDeclaration[];
+    /**
+     * Uploaded files keyed by form field names. If specified, the request body is sent as `multipart/form-data`
+     */
+    files?: PartialParameterDeclaration[];
+    /**
+     * Server-sent events endpoint. `res` is the type of event data
+     */
+    sse?: boolean;
+    /**
+     * class-transformer groups the response is serialized with(`@SerializeOptions({ groups })`)
+     */
+    groups?: string[];
     res: Type<ts.Type>;
-    func: MethodDeclaration;
+    docs: JSDoc[];
+    func: Handler;
   }
   export interface PartialParameterDeclaration {
     property: string;
-    parameter: ParameterDeclaration;
+    parameter: Parameter;
+  }
+  /**
+   * Request parameter. `ParameterDeclaration` satisfies this interface
+   */
+  export interface Parameter {
+    getName(): string;
+    getType(): Type<ts.Type>;
+    isOptional(): boolean;
   }
+  export type Handler =
+    | MethodDeclaration
+    | FunctionDeclaration
+    | FunctionExpression
+    | ArrowFunction;
 }
 
 export abstract class Writer {
+  /**
+   * Plugin API version the writer is built against
+   */
+  static readonly apiVersion = apiVersion;
+
   constructor(
     protected readonly config: Config.Output,
     protected readonly parser: Parser,
   ) {}
 
+  /**
+   * Create output files in memory
+   */
+  abstract emit(): Writer.File[];
+
+  /**
+   * Get controllers filtered by `include`/`exclude` and named by `naming` config
+   */
+  protected getControllers(): Parser.Controller[] {
+    return transformControllers(this.parser.getControllers(), this.config);
+  }
+
   /**
    * Write source files
    * @param stream Write to stdout instead of filesystem
    */
-  abstract write(stream?: boolean): void;
+  write(stream?: boolean): void {
+    for (const file of this.emit()) {
+      if (file.content === null) {
+        if (!stream && existsSync(file.path)) {
+          unlinkSync(file.path);
+        }
+      } else if (stream) {
+        process.stdout.write(file.content);
+      } else {
+        mkdirSync(dirname(file.path), { recursive: true });
+        writeFileSync(file.path, file.content);
+      }
+    }
+  }
+}
+
+export namespace Writer {
+  export interface File {
+    path: string;
+    /**
+     * `null` to remove a previously generated file
+     */
+    content: string | null;
+  }
 }
@@ -0,0 +1,263 @@
+import { printNode, Scope, SourceFile, ts } from 'ts-morph';
+import { Config } from '../config';
+import { toPascalCase } from '../naming';
+import { joinPaths } from '../parsers/utils';
+import { Parser } from '../types';
+import AxiosWriter, {
+  createDataExpression,
+  createHeadersExpression,
+  createMethodExpression,
+  createMergedObjectExpression,
+  createUrlStringExpression,
+  hasRequest,
+  RequestFunctionNode,
+} from './axios';
+
+/**
+ * Build `HttpParams` from query objects with nested keys(`a[b]=1`), arrays(`a[]=1`) and dates(ISO strings)
+ */
+const ParamsRuntime = `
+function appendParams(params: HttpParams, value: any, prefix: string): HttpParams {
+    if (value === undefined || value === null) {
+        return params;
+    }
+    if (value instanceof Date) {
+        return params.append(prefix, value.toISOString());
+    }
+    if (Array.isArray(value)) {
+        return value.reduce((acc: HttpParams, item: any, i: number) => {
+            const nested = item !== null && typeof item === "object" && !(item instanceof Date);
+            return appendParams(acc, item, nested ? \`\${prefix}[\${i}]\` : \`\${prefix}[]\`);
+        }, params);
+    }
+    if (typeof value === "object") {
+        return Object.keys(value).reduce((acc, key) => appendParams(acc, value[key], prefix ? \`\${prefix}[\${key}]\` : key), params);
+    }
+    return params.append(prefix, String(value));
+}
+
+function toHttpParams(query: any): HttpParams {
+    return appendParams(new HttpParams(), query, "");
+}
+
+function buildUrl(url: string, query: any): string {
+    const search = toHttpParams(query).toString();
+    return search ? url + "?" + search : url;
+}
+`;
+
+class AngularWriter extends AxiosWriter<Config.AngularOutput> {
+  /**
+   * Requests are always written as methods of services
+   */
+  protected get flat(): boolean {
+    return false;
+  }
+
+  protected addImports(src: SourceFile): void {
+    src.addImportDeclaration({
+      namedImports: ['Injectable'],
+      moduleSpecifier: '@angular/core',
+    });
+    src.addImportDeclaration({
+      namedImports: ['HttpClient', 'HttpContext', 'HttpParams'],
+      moduleSpecifier: '@angular/common/http',
+    });
+    src.addImportDeclaration({
+      namedImports: ['map', 'Observable'],
+      moduleSpecifier: 'rxjs',
+    });
+  }
+
+  /**
+   * Write an injectable service for each controller
+   */
+  protected writeModules(
+    src: SourceFile,
+    controllers: Parser.Controller[],
+  ): void {
+    for (const controller of controllers) {
+      const cls = src.addClass({
+        name: toPascalCase(controller.name) + 'Service',
+        docs: controller.docs.map((doc) => doc.getStructure()),
+        isExported: true,
+        decorators: [
+          { name: 'Injectable', arguments: [`{ providedIn: "root" }`] },
+        ],
+        ctors: [
+          {
+            parameters: [
+              {
+                name: 'http',
+                type: 'HttpClient',
+                scope: Scope.Private,
+                isReadonly: true,
+              },
+            ],
+          },
+        ],
+      });
+      for (const request of controller.requests) {
+        const method = cls.addMethod({ name: request.name });
+        this.writeRequest(
+          method,
+          request,
+          joinPaths(request.baseUrl ?? controller.baseUrl, request.url),
+        );
+      }
+    }
+  }
+
+  protected writeRuntime(
+    src: SourceFile,
+    controllers: Parser.Controller[],
+  ): void {
+    super.writeRuntime(src, controllers);
+    if (hasRequest(controllers, (request) => !!request.query)) {
+      src.addStatements(ParamsRuntime);
+    }
+  }
+
+  protected getOptionsType(): string {
+    return '{ headers?: Record<string, string | string[]>; context?: HttpContext }';
+  }
+
+  protected addReturnType(
+    func: RequestFunctionNode,
+    request: Parser.Request,
+  ): void {
+    func.setReturnType(`Observable<${this.getResponseType(request)}>`);
+  }
+
+  protected addStatement(
+    func: RequestFunctionNode,
+    request: Parser.Request,
+    url: string,
+  ): void {
+    const { options } = this.config;
+    const props: ts.ObjectLiteralElementLike[] = [];
+    if (request.query) {
+      props.push(
+        ts.factory.createPropertyAssignment(
+          'params',
+          ts.factory.createCallExpression(
+            ts.factory.createIdentifier('toHttpParams'),
+            null,
+            [createMergedObjectExpression(request.query)],
+          ),
+        ),
+      );
+    }
+    if (request.data || request.files) {
+      props.push(
+        ts.factory.createPropertyAssignment(
+          'body',
+          createDataExpression(request),
+        ),
+      );
+    }
+    const overwrite =
+      options &&
+      ts.factory.createPropertyAccessChain(
+        ts.factory.createIdentifier(options),
+        ts.factory.createToken(ts.SyntaxKind.QuestionDotToken),
+        'headers',
+      );
+    if (request.headers || request.headerParams) {
+      props.push(
+        ts.factory.createPropertyAssignment(
+          'headers',
+          createHeadersExpression(request, overwrite),
+        ),
+      );
+    } else if (overwrite) {
+      props.push(ts.factory.createPropertyAssignment('headers', overwrite));
+    }
+    if (options) {
+      props.push(
+        ts.factory.createPropertyAssignment(
+          'context',
+          ts.factory.createPropertyAccessChain(
+            ts.factory.createIdentifier(options),
+            ts.factory.createToken(ts.SyntaxKind.QuestionDotToken),
+            'context',
+          ),
+        ),
+      );
+    }
+    const args = [
+      createMethodExpression(request),
+      createUrlStringExpression(request, url),
+    ];
+    if (props.length) {
+      args.push(ts.factory.createObjectLiteralExpression(props));
+    }
+    func.addStatements(
+      printNode(
+        ts.factory.createReturnStatement(
+          this.parseResponse(
+            ts.factory.createCallExpression(
+              ts.factory.createPropertyAccessExpression(
+                ts.factory.createPropertyAccessExpression(
+                  ts.factory.createThis(),
+                  'http',
+                ),
+                'request',
+              ),
+              [
+                ts.factory.createTypeReferenceNode(
+                  this.getResponseType(request),
+                ),
+              ],
+              args,
+            ),
+            request,
+          ),
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Pipe response data into the response schema if enabled
+   */
+  protected parseResponse(
+    exp: ts.Expression,
+    request: Parser.Request,
+  ): ts.Expression {
+    const parser = this.createResponseParser(request);
+    if (!parser) {
+      return exp;
+    }
+    return ts.factory.createCallExpression(
+      ts.factory.createPropertyAccessExpression(exp, 'pipe'),
+      null,
+      [
+        ts.factory.createCallExpression(
+          ts.factory.createIdentifier('map'),
+          null,
+          [parser],
+        ),
+      ],
+    );
+  }
+
+  protected createEventSourceUrl(
+    request: Parser.Request,
+    url: string,
+  ): ts.Expression {
+    if (!request.query) {
+      return createUrlStringExpression(request, url);
+    }
+    return ts.factory.createCallExpression(
+      ts.factory.createIdentifier('buildUrl'),
+      null,
+      [
+        createUrlStringExpression(request, url),
+        createMergedObjectExpression(request.query),
+      ],
+    );
+  }
+}
+
+export default AngularWriter;
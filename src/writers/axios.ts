@@ -1,37 +1,131 @@
-import { dirname, join, parse, relative } from 'path';
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { dirname, join, parse, relative, resolve } from 'path';
 import {
+  ClassDeclaration,
+  EnumDeclaration,
   FunctionDeclaration,
+  InterfaceDeclaration,
+  MethodDeclaration,
   ModuleDeclaration,
-  ParameterDeclaration,
+  Node,
+  OptionalKind,
   printNode,
   Project,
+  PropertySignatureStructure,
   SourceFile,
   SyntaxKind,
   ts,
-  TypeFormatFlags,
+  TypeAliasDeclaration,
 } from 'ts-morph';
 import { Config } from '../config';
+import { checkFlatNames, getNamespaceName } from '../naming';
+import { joinPaths } from '../parsers/utils';
 import { Parser, Writer } from '../types';
+import { RequestFunction, writeQueryHooks } from './query';
+import {
+  getSerializedProperty,
+  GroupVariants,
+  replaceNames,
+} from './serialization';
+import { WireTypes } from './wire';
+import { ZodSchemaBuilder } from './zod';
+
+/**
+ * Build `multipart/form-data` bodies of upload requests
+ */
+const FormDataRuntime = `
+function toFormData(data: Record<string, any>): FormData {
+    const form = new FormData();
+    Object.keys(data).forEach((key) => {
+        const value = data[key];
+        (Array.isArray(value) ? value : [value]).forEach((item) => {
+            if (item === undefined || item === null) {
+                return;
+            }
+            form.append(key, item instanceof Blob ? item : typeof item === "object" ? JSON.stringify(item) : String(item));
+        });
+    });
+    return form;
+}
+`;
+
+/**
+ * Request functions are written as functions in namespaces or methods in classes
+ */
+export type RequestFunctionNode = FunctionDeclaration | MethodDeclaration;
+
+/**
+ * Types may come from non-exported or ambient(`declare`) declarations
+ */
+const ExportedStructure = {
+  isExported: true,
+  isDefaultExport: false,
+  hasDeclareKeyword: false,
+};
+
+/**
+ * Marker of files written to an output directory, after `comment` if specified. Only files with it are removed
+ */
+const GeneratedComment = '/* AUTO GENERATED BY node2api. DO NOT CHANGE */';
+
+type TypeDeclaration =
+  | EnumDeclaration
+  | InterfaceDeclaration
+  | ClassDeclaration
+  | TypeAliasDeclaration;
 
-class AxiosWriter extends Writer {
+type Variant = [string, ClassDeclaration, string[]];
+
+class AxiosWriter<
+  T extends
+    | Config.AxiosOutput
+    | Config.FetchOutput
+    | Config.AngularOutput = Config.AxiosOutput,
+> extends Writer {
   protected readonly requestsFile: string;
   protected readonly typesFile: string;
+  /**
+   * Output directory if each controller is written to its own file
+   */
+  protected readonly dir?: string;
+  protected schemas?: ZodSchemaBuilder;
+  /**
+   * Class variants collected by the current emit. Nodes are not kept between emits in watch mode
+   */
+  protected variants: GroupVariants;
+  /**
+   * Wire types of the current emit, which cache revivers of types
+   */
+  protected wire: WireTypes;
 
-  constructor(protected readonly config: Config.AxiosOutput, parser: Parser) {
+  constructor(protected readonly config: T, parser: Parser) {
     super(config, parser);
     if (typeof config.dest === 'string') {
       this.requestsFile = this.typesFile = config.dest;
+    } else if ('dir' in config.dest) {
+      this.dir = config.dest.dir;
+      this.requestsFile = this.typesFile = join(this.dir, 'index.ts');
     } else {
       this.requestsFile = config.dest.requestFile;
       this.typesFile = config.dest.typesFile;
     }
   }
 
-  write(stream?: boolean): void {
-    const { config, parser } = this;
+  emit(): Writer.File[] {
+    this.variants = new GroupVariants();
+    // dates are coerced by schemas parsing responses
+    this.wire = new WireTypes(
+      this.config.wireTypes,
+      this.config.validators?.parseResponse ? ['Date'] : [],
+    );
+    if (this.dir) {
+      return this.emitDirectory(this.dir);
+    }
+    const { config } = this;
     const project = new Project();
     let requestsSrc: SourceFile;
     let typesSrc: SourceFile;
+    let schemasSrc: SourceFile | undefined;
 
     // create single source file
     requestsSrc = project.createSourceFile(this.requestsFile, config.comment, {
@@ -45,22 +139,33 @@ class AxiosWriter extends Writer {
       });
     }
 
-    // import http module
-    requestsSrc.addImportDeclaration({
-      defaultImport: 'http',
-      moduleSpecifier: this.resolveHttpModule(),
-    });
-    if (this.config.options) {
-      requestsSrc.addImportDeclaration({
-        namedImports: ['AxiosRequestConfig'],
-        moduleSpecifier: 'axios',
-        isTypeOnly: true,
-      });
+    const types = Array.from(this.parser.getTypes());
+    const externals = getExternalTypes(types, config.externalTypes);
+    if (config.validators) {
+      this.schemas = new ZodSchemaBuilder(types, this.variants, this.wire);
+      schemasSrc =
+        project.getSourceFile(config.validators.dest ?? this.typesFile) ??
+        project.createSourceFile(config.validators.dest, config.comment, {
+          overwrite: true,
+        });
     }
 
-    this.writeModules(requestsSrc);
+    const controllers = this.getControllers();
+    this.addImports(requestsSrc);
+    this.addQueryHooksImports(requestsSrc);
+    this.writeRuntime(requestsSrc, controllers);
+    this.writeModules(requestsSrc, controllers);
 
-    const typeNames = Array.from(this.writeTypes(typesSrc));
+    // merged declarations share the same name
+    const typeNames = Array.from(
+      new Set([
+        ...this.writeTypes(
+          typesSrc,
+          types.filter((e) => !externals.has(e)),
+        ),
+        ...this.writeVariants(typesSrc, Array.from(this.variants.entries())),
+      ]),
+    );
     if (typesSrc !== requestsSrc) {
       requestsSrc.addImportDeclaration({
         namedImports: typeNames,
@@ -71,65 +176,366 @@ class AxiosWriter extends Writer {
       });
     }
 
+    if (schemasSrc) {
+      const schemaNames = Array.from(this.schemas.write(schemasSrc));
+      schemasSrc.addImportDeclaration({
+        namedImports: ['z'],
+        moduleSpecifier: 'zod',
+      });
+      if (schemasSrc !== typesSrc) {
+        // enums are used as values
+        const enumNames = getEnumNames(types);
+        for (const isTypeOnly of [false, true]) {
+          const namedImports = typeNames.filter(
+            (e) => enumNames.has(e) !== isTypeOnly,
+          );
+          if (namedImports.length) {
+            schemasSrc.addImportDeclaration({
+              namedImports,
+              isTypeOnly,
+              moduleSpecifier: resolveRelativeModule(
+                this.typesFile,
+                schemasSrc.getFilePath(),
+              ),
+            });
+          }
+        }
+      }
+      if (config.validators.parseResponse && schemasSrc !== requestsSrc) {
+        requestsSrc.addImportDeclaration({
+          namedImports: ['z'],
+          moduleSpecifier: 'zod',
+        });
+        requestsSrc.addImportDeclaration({
+          namedImports: schemaNames,
+          moduleSpecifier: resolveRelativeModule(
+            schemasSrc.getFilePath(),
+            this.requestsFile,
+          ),
+        });
+      }
+    }
+
+    const sources = Array.from(
+      new Set([requestsSrc, typesSrc, schemasSrc]),
+    ).filter((src) => src);
     // format
-    requestsSrc.fixUnusedIdentifiers();
-    if (typesSrc !== requestsSrc) {
-      typesSrc.fixUnusedIdentifiers();
+    for (const src of sources) {
+      this.addExternalImports(src, externals);
+      src.fixUnusedIdentifiers();
+      if (config.formatSettings) {
+        src.formatText(config.formatSettings as any);
+      }
     }
-    if (config.formatSettings) {
-      requestsSrc.formatText(config.formatSettings as any);
-      if (typesSrc !== requestsSrc) {
-        typesSrc.formatText(config.formatSettings as any);
+
+    return sources.map((src) => ({
+      path: src.getFilePath(),
+      content: src.getFullText(),
+    }));
+  }
+
+  /**
+   * Write each controller to its own file and types to `types/` grouped by their source files, with an `index.ts` barrel.
+   * Helpers of the runtime are shared in `runtime.ts`, and schemas in `schemas.ts`
+   */
+  protected emitDirectory(dir: string): Writer.File[] {
+    const { config } = this;
+    const comment = config.comment
+      ? `${config.comment}\n${GeneratedComment}`
+      : GeneratedComment;
+    const project = new Project();
+    const createSourceFile = (path: string) =>
+      project.createSourceFile(join(dir, path), comment, { overwrite: true });
+
+    const types = Array.from(this.parser.getTypes());
+    const externals = getExternalTypes(types, config.externalTypes);
+    if (config.validators) {
+      this.schemas = new ZodSchemaBuilder(types, this.variants, this.wire);
+    }
+
+    const allControllers = this.getControllers();
+    const indexSrc = createSourceFile('index.ts');
+    const runtimeSrc = createSourceFile('runtime.ts');
+    this.addImports(runtimeSrc);
+    this.writeRuntime(runtimeSrc, allControllers);
+    // helpers are exported to request files, but only public ones from the barrel
+    const publicNames = getExportedNames(runtimeSrc);
+    const runtimeNames = exportStatements(runtimeSrc);
+
+    // controllers of the same name share a file
+    const controllers = new Map<string, Parser.Controller[]>();
+    for (const controller of allControllers) {
+      controllers.set(controller.name, [
+        ...(controllers.get(controller.name) ?? []),
+        controller,
+      ]);
+    }
+    const requestSources: SourceFile[] = [];
+    for (const [name, group] of controllers) {
+      const src = createSourceFile(`${name}.ts`);
+      this.addImports(src);
+      this.addQueryHooksImports(src);
+      this.writeModules(src, group);
+      requestSources.push(src);
+    }
+
+    // written after requests, which collect class variants
+    const typeNames = new Map<SourceFile, string[]>();
+    for (const [path, group] of groupTypes(
+      types.filter((e) => !externals.has(e)),
+      this.variants.entries(),
+    )) {
+      const src = createSourceFile(join('types', `${path}.ts`));
+      typeNames.set(
+        src,
+        Array.from(
+          new Set([
+            ...this.writeTypes(src, group.types),
+            ...this.writeVariants(src, group.variants),
+          ]),
+        ),
+      );
+    }
+    for (const src of [...typeNames.keys(), runtimeSrc, ...requestSources]) {
+      importNames(src, typeNames, true);
+    }
+    let schemasSrc: SourceFile | undefined;
+    if (this.schemas) {
+      schemasSrc = createSourceFile('schemas.ts');
+      const schemaNames = Array.from(this.schemas.write(schemasSrc));
+      schemasSrc.addImportDeclaration({
+        namedImports: ['z'],
+        moduleSpecifier: 'zod',
+      });
+      // enums are used as values
+      const enumNames = getEnumNames(types);
+      for (const isTypeOnly of [false, true]) {
+        importNames(
+          schemasSrc,
+          new Map(
+            Array.from(typeNames, ([src, names]) => [
+              src,
+              names.filter((e) => enumNames.has(e) !== isTypeOnly),
+            ]),
+          ),
+          isTypeOnly,
+        );
+      }
+      if (config.validators.parseResponse) {
+        for (const src of requestSources) {
+          src.addImportDeclaration({
+            namedImports: ['z'],
+            moduleSpecifier: 'zod',
+          });
+          importNames(src, new Map([[schemasSrc, schemaNames]]), false);
+        }
       }
     }
+    for (const src of requestSources) {
+      importNames(src, new Map([[runtimeSrc, runtimeNames]]), false);
+    }
 
-    // write to filesystem or stream
-    if (stream) {
-      process.stdout.write(requestsSrc.print({ scriptKind: ts.ScriptKind.TS }));
-      if (typesSrc !== requestsSrc) {
-        process.stdout.write(typesSrc.print({ scriptKind: ts.ScriptKind.TS }));
+    const sources = [
+      runtimeSrc,
+      ...requestSources,
+      ...typeNames.keys(),
+      schemasSrc,
+    ].filter((src) => src);
+    for (const src of sources) {
+      this.addExternalImports(src, externals);
+      src.fixUnusedIdentifiers();
+    }
+    // runtime is empty if there are no helpers
+    const modules = sources.filter(
+      (src) => src !== runtimeSrc || src.getStatements().length,
+    );
+    for (const src of modules) {
+      if (src === runtimeSrc) {
+        if (publicNames.length) {
+          indexSrc.addExportDeclaration({
+            namedExports: publicNames,
+            moduleSpecifier: resolveRelativeModule(
+              src.getFilePath(),
+              indexSrc.getFilePath(),
+            ),
+          });
+        }
+      } else {
+        indexSrc.addExportDeclaration({
+          moduleSpecifier: resolveRelativeModule(
+            src.getFilePath(),
+            indexSrc.getFilePath(),
+          ),
+        });
       }
-    } else {
-      requestsSrc.saveSync();
-      if (typesSrc !== requestsSrc) {
-        typesSrc.saveSync();
+    }
+    const files: Writer.File[] = [indexSrc, ...modules].map((src) => {
+      if (config.formatSettings) {
+        src.formatText(config.formatSettings as any);
       }
+      return { path: src.getFilePath(), content: src.getFullText() };
+    });
+    return [...files, ...getStaleFiles(dir, files)];
+  }
+
+  /**
+   * Whether requests are exported at the top level instead of in namespaces
+   */
+  protected get flat(): boolean {
+    return this.config.layout === 'flat';
+  }
+
+  protected getControllers(): Parser.Controller[] {
+    const controllers = super.getControllers();
+    if (this.flat) {
+      checkFlatNames(controllers);
     }
+    return controllers;
   }
 
-  protected writeModules(src: SourceFile): void {
-    for (const controller of this.parser.getControllers()) {
-      const mod = src.addModule({
-        name: controller.name.toUpperCase(),
-        docs: controller.docs.map((doc) => doc.getStructure()),
-        isExported: true,
+  protected addImports(src: SourceFile): void {
+    // import http module
+    src.addImportDeclaration({
+      defaultImport: 'http',
+      moduleSpecifier: this.resolveHttpModule(src),
+    });
+    if (this.config.options) {
+      src.addImportDeclaration({
+        namedImports: ['AxiosRequestConfig'],
+        moduleSpecifier: 'axios',
+        isTypeOnly: true,
+      });
+    }
+  }
+
+  /**
+   * Import types from client side modules of `externalTypes`. Unused ones are removed on formatting
+   */
+  protected addExternalImports(
+    src: SourceFile,
+    externals: Map<TypeDeclaration, string>,
+  ): void {
+    const modules = new Map<string, Set<string>>();
+    for (const [type, mod] of externals) {
+      modules.set(mod, (modules.get(mod) ?? new Set()).add(type.getName()));
+    }
+    for (const [mod, names] of modules) {
+      src.addImportDeclaration({
+        // enums are used as values
+        namedImports: Array.from(names),
+        moduleSpecifier: mod.startsWith('.')
+          ? resolveRelativeModule(mod, src.getFilePath())
+          : mod,
       });
+    }
+  }
+
+  protected addQueryHooksImports(src: SourceFile): void {
+    if (!this.config.queryHooks) {
+      return;
+    }
+    src.addImportDeclaration({
+      namedImports: ['useMutation', 'useQuery', 'useQueryClient'],
+      moduleSpecifier: '@tanstack/react-query',
+    });
+    src.addImportDeclaration({
+      namedImports: ['UseMutationOptions', 'UseQueryOptions'],
+      moduleSpecifier: '@tanstack/react-query',
+      isTypeOnly: true,
+    });
+  }
+
+  /**
+   * Write helpers required by request functions
+   */
+  protected writeRuntime(
+    src: SourceFile,
+    controllers: Parser.Controller[],
+  ): void {
+    if (hasRequest(controllers, (request) => !!request.files)) {
+      src.addStatements(FormDataRuntime);
+    }
+  }
+
+  protected writeModules(
+    src: SourceFile,
+    controllers: Parser.Controller[],
+  ): void {
+    const { naming } = this.config;
+    for (const controller of controllers) {
+      const mod = this.flat
+        ? src
+        : src.addModule({
+            name: getNamespaceName(controller.name, naming?.namespace),
+            docs: controller.docs.map((doc) => doc.getStructure()),
+            isExported: true,
+          });
+      const funcs: RequestFunction[] = [];
       for (const request of controller.requests) {
-        this.writeFunction(request, mod, controller.baseUrl);
+        funcs.push({
+          request,
+          func: this.writeFunction(request, mod, controller.baseUrl),
+          res: this.getResponseType(request),
+        });
+      }
+      if (this.config.queryHooks) {
+        writeQueryHooks(
+          mod,
+          controller.name,
+          funcs,
+          this.config.queryHooks,
+          this.config.options,
+        );
       }
     }
   }
 
   protected writeFunction(
     request: Parser.Request,
-    mod: ModuleDeclaration,
+    mod: ModuleDeclaration | SourceFile,
     baseUrl: string,
-  ): void {
-    const url = joinPaths(baseUrl, request.url);
+  ): FunctionDeclaration {
+    const url = joinPaths(request.baseUrl ?? baseUrl, request.url);
 
     const func = mod.addFunction({
-      name: request.func.getName(),
+      name: request.name,
       isExported: true,
     });
+    this.writeRequest(func, request, url);
+    return func;
+  }
+
+  /**
+   * Write signature and body of a request function
+   */
+  protected writeRequest(
+    func: RequestFunctionNode,
+    request: Parser.Request,
+    url: string,
+  ): void {
+    const src = func.getSourceFile();
     this.addTypeParameters(func, request);
     this.addParameters(func, request);
-    this.addReturnType(func, request);
-    this.addStatement(func, request, url);
+    if (request.sse) {
+      func.setReturnType('EventSource');
+      this.addEventSourceStatement(func, request, url);
+    } else {
+      this.addReturnType(func, request);
+      this.addStatement(func, request, url);
+      const reviver = this.wire.getReviver(
+        request.res,
+        request.func,
+        request.groups,
+      );
+      if (reviver) {
+        this.wire.writeReviver(src, reviver);
+      }
+    }
     this.addDocs(func, request);
   }
 
   protected addTypeParameters(
-    func: FunctionDeclaration,
+    func: RequestFunctionNode,
     request: Parser.Request,
   ): void {
     for (const parameter of request.func.getTypeParameters()) {
@@ -137,17 +543,17 @@ class AxiosWriter extends Writer {
     }
   }
 
-  protected addDocs(func: FunctionDeclaration, request: Parser.Request): void {
-    for (const doc of request.func.getJsDocs()) {
+  protected addDocs(func: RequestFunctionNode, request: Parser.Request): void {
+    for (const doc of request.docs) {
       func.addJsDoc(doc.getStructure());
     }
   }
 
   protected addReturnType(
-    func: FunctionDeclaration,
+    func: RequestFunctionNode,
     request: Parser.Request,
   ): void {
-    const returnType = request.res.getText(null, TypeFormatFlags.None);
+    const returnType = this.getResponseType(request);
     func.setReturnType(
       printNode(
         ts.factory.createTypeReferenceNode(
@@ -163,10 +569,10 @@ class AxiosWriter extends Writer {
   }
 
   protected addParameters(
-    func: FunctionDeclaration,
+    func: RequestFunctionNode,
     request: Parser.Request,
   ): void {
-    const parameters: ParameterDeclaration[] = [];
+    const parameters: Parser.Parameter[] = [];
     if (request.params) {
       parameters.push(...request.params.map((p) => p.parameter));
     }
@@ -184,24 +590,80 @@ class AxiosWriter extends Writer {
         parameters.push(request.data);
       }
     }
+    if (request.files) {
+      parameters.push(...request.files.map((p) => p.parameter));
+    }
+    if (request.headerParams) {
+      if (Array.isArray(request.headerParams)) {
+        parameters.push(...request.headerParams.map((p) => p.parameter));
+      } else {
+        parameters.push(request.headerParams);
+      }
+    }
+    // required parameters can not follow optional ones, e.g. an optional body field before a file
+    parameters.sort((a, b) => Number(a.isOptional()) - Number(b.isOptional()));
     func.addParameters(
       parameters.map((parameter) => ({
         name: parameter.getName(),
-        type: parameter.getType().getText(null, TypeFormatFlags.None),
+        type: this.getParameterText(parameter),
         hasQuestionToken: parameter.isOptional(),
       })),
     );
+    if (request.method === 'all') {
+      // `@All()` routes accept any method
+      func.addParameter({
+        name: 'method',
+        type: "'get' | 'post' | 'put' | 'patch' | 'delete'",
+        initializer: "'get'",
+      });
+    }
+    if (request.sse) {
+      // optional since it may follow optional parameters
+      func.addParameter({
+        name: 'onMessage',
+        hasQuestionToken: true,
+        type: `(data: ${this.getResponseType(request)}) => void`,
+      });
+    }
     if (this.config.options) {
       func.addParameter({
         name: this.config.options,
-        type: 'AxiosRequestConfig',
+        type: request.sse ? 'EventSourceInit' : this.getOptionsType(),
         hasQuestionToken: true,
       });
     }
   }
 
+  /**
+   * Get the type text of a request parameter. `undefined` of optional parameters is implied by the question token
+   */
+  protected getParameterText(parameter: Parser.Parameter): string {
+    const type = parameter.getType();
+    const members = type.getUnionTypes();
+    if (!parameter.isOptional() || !members.some((e) => e.isUndefined())) {
+      return this.wire.getText(type);
+    }
+    const text = this.wire.getText(type.getNonNullableType());
+    return members.some((e) => e.isNull()) ? `${text} | null` : text;
+  }
+
+  /**
+   * Get the response type text. Classes serialized with groups are replaced by their variants
+   */
+  protected getResponseType(request: Parser.Request): string {
+    const text = this.wire.getText(request.res);
+    if (!request.groups) {
+      return text;
+    }
+    return replaceNames(text, this.variants.add(request.res, request.groups));
+  }
+
+  protected getOptionsType(): string {
+    return 'AxiosRequestConfig';
+  }
+
   protected addStatement(
-    func: FunctionDeclaration,
+    func: RequestFunctionNode,
     request: Parser.Request,
     url: string,
   ): void {
@@ -213,31 +675,192 @@ class AxiosWriter extends Writer {
     func.addStatements(
       printNode(
         ts.factory.createReturnStatement(
-          ts.factory.createCallExpression(lib, null, [opts]),
+          this.parseResponse(
+            ts.factory.createCallExpression(lib, null, [opts]),
+            request,
+          ),
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Open an `EventSource` passing parsed event data to `onMessage`
+   */
+  protected addEventSourceStatement(
+    func: RequestFunctionNode,
+    request: Parser.Request,
+    url: string,
+  ): void {
+    const args = [this.createEventSourceUrl(request, url)];
+    if (this.config.options) {
+      args.push(ts.factory.createIdentifier(this.config.options));
+    }
+    // string data is sent as is, others as JSON
+    const data = request.res.isString()
+      ? 'event.data'
+      : 'JSON.parse(event.data)';
+    func.addStatements([
+      `const source = ${printNode(
+        ts.factory.createNewExpression(
+          ts.factory.createIdentifier('EventSource'),
+          null,
+          args,
         ),
+      )};`,
+      `source.onmessage = (event) => onMessage?.(${data});`,
+      'return source;',
+    ]);
+  }
+
+  protected createEventSourceUrl(
+    request: Parser.Request,
+    url: string,
+  ): ts.Expression {
+    const props: ts.ObjectLiteralElementLike[] = [
+      ts.factory.createPropertyAssignment(
+        'url',
+        createUrlStringExpression(request, url),
+      ),
+    ];
+    if (request.query) {
+      props.push(
+        ts.factory.createPropertyAssignment(
+          'params',
+          createMergedObjectExpression(request.query),
+        ),
+      );
+    }
+    return ts.factory.createCallExpression(
+      ts.factory.createPropertyAccessExpression(
+        ts.factory.createIdentifier('http'),
+        'getUri',
       ),
+      null,
+      [ts.factory.createObjectLiteralExpression(props)],
+    );
+  }
+
+  /**
+   * Chain parsing of response data with the response schema if enabled
+   */
+  protected parseResponse(
+    exp: ts.Expression,
+    request: Parser.Request,
+  ): ts.Expression {
+    const parser = this.createResponseParser(request);
+    if (!parser) {
+      return exp;
+    }
+    return ts.factory.createCallExpression(
+      ts.factory.createPropertyAccessExpression(exp, 'then'),
+      null,
+      [parser],
+    );
+  }
+
+  /**
+   * Create `data => Schema.parse(data)` if response parsing is enabled and the response has a schema.
+   * Data is passed to the reviver of the response type if any, e.g. `data => reviveUser(data)`
+   */
+  protected createResponseParser(
+    request: Parser.Request,
+  ): ts.ArrowFunction | undefined {
+    let body: ts.Expression = ts.factory.createIdentifier('data');
+    if (this.schemas && this.config.validators.parseResponse) {
+      const schema = this.schemas.getResponseSchema(
+        request.res,
+        request.func,
+        request.groups,
+      );
+      if (!['z.any()', 'z.unknown()', 'z.undefined()'].includes(schema)) {
+        body = ts.factory.createCallExpression(
+          ts.factory.createPropertyAccessExpression(
+            ts.factory.createIdentifier(schema),
+            'parse',
+          ),
+          null,
+          [body],
+        );
+      }
+    }
+    const reviver = this.wire.getReviver(
+      request.res,
+      request.func,
+      request.groups,
+    );
+    if (reviver) {
+      body = ts.factory.createCallExpression(
+        ts.factory.createIdentifier(reviver),
+        null,
+        [body],
+      );
+    }
+    if (ts.isIdentifier(body)) {
+      return;
+    }
+    return ts.factory.createArrowFunction(
+      undefined,
+      undefined,
+      [
+        ts.factory.createParameterDeclaration(
+          undefined,
+          undefined,
+          undefined,
+          'data',
+        ),
+      ],
+      undefined,
+      undefined,
+      body,
     );
   }
 
-  protected *writeTypes(src: SourceFile): Iterable<string> {
-    for (const type of this.parser.getTypes()) {
+  protected *writeTypes(
+    src: SourceFile,
+    types: Iterable<TypeDeclaration>,
+  ): Iterable<string> {
+    for (const type of types) {
       switch (type.getKind()) {
         case SyntaxKind.EnumDeclaration:
           yield src
-            .addEnum(type.asKind(SyntaxKind.EnumDeclaration).getStructure())
+            .addEnum({
+              ...type.asKind(SyntaxKind.EnumDeclaration).getStructure(),
+              ...ExportedStructure,
+            })
             .getName();
           break;
         case SyntaxKind.InterfaceDeclaration:
+          const iface = type.asKind(SyntaxKind.InterfaceDeclaration);
+          if (this.wire.getJsonType(iface)) {
+            yield this.writeJsonType(src, iface);
+            break;
+          }
+          const ifaceStruct = iface.getStructure();
           yield src
-            .addInterface(
-              type.asKind(SyntaxKind.InterfaceDeclaration).getStructure(),
-            )
+            .addInterface({
+              ...ifaceStruct,
+              ...ExportedStructure,
+              properties: iface.getProperties().map((prop, i) => ({
+                ...ifaceStruct.properties[i],
+                type: this.wire.printTypeNode(prop.getTypeNode()),
+              })),
+              indexSignatures: iface.getIndexSignatures().map((sig, i) => ({
+                ...ifaceStruct.indexSignatures[i],
+                returnType: this.wire.printTypeNode(sig.getReturnTypeNode()),
+              })),
+              // methods are not sent over JSON
+              methods: this.wire.enabled ? [] : ifaceStruct.methods,
+            })
             .getName();
           break;
         case SyntaxKind.ClassDeclaration:
-          const struct = type
-            .asKind(SyntaxKind.ClassDeclaration)
-            .getStructure();
+          const cls = type.asKind(SyntaxKind.ClassDeclaration);
+          if (this.wire.getJsonType(cls)) {
+            yield this.writeJsonType(src, cls);
+            break;
+          }
+          const struct = cls.getStructure();
           const imps = struct.implements
             ? Array.isArray(struct.implements)
               ? struct.implements
@@ -249,33 +872,116 @@ class AxiosWriter extends Writer {
               isExported: true,
               typeParameters: struct.typeParameters,
               extends: [struct.extends, ...imps],
-              properties: struct.properties.map((prop) => ({
-                name: prop.name,
-                type: prop.type,
-                hasQuestionToken: prop.hasQuestionToken,
-                docs: prop.docs,
-              })),
+              properties: this.getSerializedProperties([cls]),
               docs: struct.docs,
             })
             .getName();
           break;
         case SyntaxKind.TypeAliasDeclaration:
+          const alias = type.asKind(SyntaxKind.TypeAliasDeclaration);
           yield src
-            .addTypeAlias(
-              type.asKind(SyntaxKind.TypeAliasDeclaration).getStructure(),
-            )
+            .addTypeAlias({
+              ...alias.getStructure(),
+              ...ExportedStructure,
+              type: this.wire.printTypeNode(alias.getTypeNode()),
+            })
             .getName();
           break;
       }
     }
   }
 
-  protected resolveHttpModule(): string {
+  /**
+   * Write a declaration with `toJSON()` as a type alias of its return type
+   */
+  protected writeJsonType(
+    src: SourceFile,
+    decl: ClassDeclaration | InterfaceDeclaration,
+  ): string {
+    return src
+      .addTypeAlias({
+        name: decl.getName(),
+        isExported: true,
+        typeParameters: decl.getTypeParameters().map((e) => e.getStructure()),
+        type: this.wire.getJsonText(decl),
+        docs: decl.getJsDocs().map((doc) => doc.getStructure()),
+      })
+      .getName();
+  }
+
+  /**
+   * Write interfaces of class variants serialized with groups.
+   * Inherited properties are flattened since base classes may have no variants
+   */
+  protected *writeVariants(
+    src: SourceFile,
+    variants: Iterable<Variant>,
+  ): Iterable<string> {
+    for (const [name, cls, groups] of variants) {
+      const classes: ClassDeclaration[] = [];
+      for (let e = cls; e; e = e.getBaseClass()) {
+        classes.push(e);
+      }
+      yield src
+        .addInterface({
+          name,
+          isExported: true,
+          typeParameters: cls.getStructure().typeParameters,
+          properties: this.getSerializedProperties(classes, groups),
+          docs: cls.getJsDocs().map((doc) => doc.getStructure()),
+        })
+        .getName();
+    }
+  }
+
+  /**
+   * Get properties of classes serialized by class-transformer. Former classes override latter ones
+   */
+  protected getSerializedProperties(
+    classes: ClassDeclaration[],
+    groups?: string[],
+  ): OptionalKind<PropertySignatureStructure>[] {
+    const props = new Map<string, OptionalKind<PropertySignatureStructure>>();
+    for (const cls of classes) {
+      for (const member of [...cls.getProperties(), ...cls.getGetAccessors()]) {
+        const prop =
+          !member.isStatic() &&
+          getSerializedProperty(member.getSymbol(), groups);
+        if (!prop || props.has(prop.name)) {
+          continue;
+        }
+        // inferred types are printed from the checker
+        let type = prop.type
+          ? this.wire.getText(prop.type) + (prop.array ? '[]' : '')
+          : this.wire.printTypeNode(
+              Node.isPropertyDeclaration(member)
+                ? member.getTypeNode()
+                : member.getReturnTypeNode(),
+            ) ?? this.wire.getText(member.getType());
+        if (type && groups) {
+          type = replaceNames(type, this.variants.get(groups));
+        }
+        props.set(prop.name, {
+          name: /^[A-Za-z_$][\w$]*$/.test(prop.name)
+            ? prop.name
+            : JSON.stringify(prop.name),
+          type,
+          hasQuestionToken:
+            Node.isPropertyDeclaration(member) && member.hasQuestionToken(),
+          isReadonly: Node.isGetAccessorDeclaration(member) || undefined,
+          docs: member.getJsDocs().map((doc) => doc.getStructure()),
+        });
+      }
+    }
+    return Array.from(props.values());
+  }
+
+  protected resolveHttpModule(src: SourceFile): string {
     // add http module import
     if (!this.config.httpModule) {
       return 'axios';
     }
-    return resolveRelativeModule(this.config.httpModule, this.requestsFile);
+    return resolveRelativeModule(this.config.httpModule, src.getFilePath());
   }
 }
 
@@ -287,7 +993,7 @@ function createRequestOptions(
   const props: ts.ObjectLiteralElementLike[] = [
     ts.factory.createPropertyAssignment(
       'method',
-      ts.factory.createStringLiteral(request.method),
+      createMethodExpression(request),
     ),
     ts.factory.createPropertyAssignment(
       'url',
@@ -302,11 +1008,11 @@ function createRequestOptions(
       ),
     );
   }
-  if (request.data) {
+  if (request.data || request.files) {
     props.push(
       ts.factory.createPropertyAssignment(
         'data',
-        createMergedObjectExpression(request.data),
+        createDataExpression(request),
       ),
     );
   }
@@ -315,28 +1021,110 @@ function createRequestOptions(
       ts.factory.createSpreadAssignment(ts.factory.createIdentifier(overwrite)),
     );
   }
+  if (request.headers || request.headerParams) {
+    // merge instead of being replaced by overwritten headers
+    props.push(
+      ts.factory.createPropertyAssignment(
+        'headers',
+        createHeadersExpression(
+          request,
+          overwrite &&
+            ts.factory.createPropertyAccessChain(
+              ts.factory.createIdentifier(overwrite),
+              ts.factory.createToken(ts.SyntaxKind.QuestionDotToken),
+              'headers',
+            ),
+        ),
+      ),
+    );
+  }
   const options = ts.factory.createObjectLiteralExpression(props);
   return options;
 }
 
-function createMergedObjectExpression(
-  parameters: ParameterDeclaration | Parser.PartialParameterDeclaration[],
+export function createMethodExpression(request: Parser.Request): ts.Expression {
+  return request.method === 'all'
+    ? ts.factory.createIdentifier('method')
+    : ts.factory.createStringLiteral(request.method);
+}
+
+/**
+ * Headers from request and header parameters
+ */
+export function createHeadersExpression(
+  request: Parser.Request,
+  overwrite?: ts.Expression,
+): ts.ObjectLiteralExpression {
+  const props: ts.ObjectLiteralElementLike[] = Object.entries(
+    request.headers ?? {},
+  ).map(([k, v]) =>
+    ts.factory.createPropertyAssignment(
+      ts.factory.createStringLiteral(k),
+      ts.factory.createStringLiteral(v),
+    ),
+  );
+  if (request.headerParams) {
+    props.push(...getObjectElements(request.headerParams));
+  }
+  if (overwrite) {
+    props.push(ts.factory.createSpreadAssignment(overwrite));
+  }
+  return ts.factory.createObjectLiteralExpression(props);
+}
+
+/**
+ * Request body. Bodies with files are converted to `FormData`
+ */
+export function createDataExpression(request: Parser.Request): ts.Expression {
+  if (!request.files) {
+    return createMergedObjectExpression(request.data);
+  }
+  const props = request.data ? getObjectElements(request.data) : [];
+  props.push(...getObjectElements(request.files));
+  return ts.factory.createCallExpression(
+    ts.factory.createIdentifier('toFormData'),
+    null,
+    [ts.factory.createObjectLiteralExpression(props)],
+  );
+}
+
+export function createMergedObjectExpression(
+  parameters: Parser.Parameter | Parser.PartialParameterDeclaration[],
 ): ts.Expression {
   if (!Array.isArray(parameters)) {
     return ts.factory.createIdentifier(parameters.getName());
   }
+  return ts.factory.createObjectLiteralExpression(
+    getObjectElements(parameters),
+  );
+}
+
+/**
+ * Object literal elements of parameters. A whole parameter is spread
+ */
+function getObjectElements(
+  parameters: Parser.Parameter | Parser.PartialParameterDeclaration[],
+): ts.ObjectLiteralElementLike[] {
+  if (!Array.isArray(parameters)) {
+    return [
+      ts.factory.createSpreadAssignment(
+        ts.factory.createIdentifier(parameters.getName()),
+      ),
+    ];
+  }
   const map = new Map<string, string>();
   for (const { property, parameter } of parameters) {
     map.set(property, parameter.getName());
   }
-  return ts.factory.createObjectLiteralExpression(
-    Array.from(map).map(([k, v]) =>
-      ts.factory.createPropertyAssignment(k, ts.factory.createIdentifier(v)),
+  return Array.from(map).map(([k, v]) =>
+    ts.factory.createPropertyAssignment(
+      /^[A-Za-z_$][\w$]*$/.test(k) ? k : ts.factory.createStringLiteral(k),
+      ts.factory.createIdentifier(v),
     ),
   );
 }
 
-function createUrlStringExpression(
+export function createUrlStringExpression(
   request: Parser.Request,
   url: string,
 ): ts.Expression {
@@ -358,7 +1146,214 @@ function createUrlStringExpression(
   );
 }
 
-function resolveRelativeModule(moduleSpecifier: string, from: string): string {
+/**
+ * Get client side modules of types declared in packages or directories of `externalTypes`
+ */
+function getExternalTypes(
+  types: TypeDeclaration[],
+  externalTypes: Record<string, string> = {},
+): Map<TypeDeclaration, string> {
+  const externals = new Map<TypeDeclaration, string>();
+  const entries = Object.entries(externalTypes);
+  const packages = new Map<string, string | undefined>();
+  for (const type of types) {
+    const path = type.getSourceFile().getFilePath();
+    const match = entries.find(([key]) =>
+      /^[./]/.test(key)
+        ? !relative(resolve(key), path).startsWith('..')
+        : getPackageName(dirname(path), packages) === key,
+    );
+    if (match) {
+      externals.set(type, match[1]);
+    }
+  }
+  return externals;
+}
+
+/**
+ * Get the name in the nearest `package.json` of a directory
+ * @param cache Package names by directories
+ */
+function getPackageName(
+  dir: string,
+  cache: Map<string, string | undefined>,
+): string | undefined {
+  if (!cache.has(dir)) {
+    const path = join(dir, 'package.json');
+    const parent = dirname(dir);
+    cache.set(
+      dir,
+      existsSync(path)
+        ? JSON.parse(readFileSync(path, 'utf-8')).name
+        : parent !== dir
+        ? getPackageName(parent, cache)
+        : undefined,
+    );
+  }
+  return cache.get(dir);
+}
+
+/**
+ * Group types and class variants by their source files. Groups are keyed by paths relative to the common directory without extensions
+ */
+function groupTypes(
+  types: TypeDeclaration[],
+  variants: Iterable<Variant>,
+): Map<string, { types: TypeDeclaration[]; variants: Variant[] }> {
+  const groups = new Map<
+    string,
+    { types: TypeDeclaration[]; variants: Variant[] }
+  >();
+  const getGroup = (node: Node) => {
+    const path = node.getSourceFile().getFilePath();
+    if (!groups.has(path)) {
+      groups.set(path, { types: [], variants: [] });
+    }
+    return groups.get(path);
+  };
+  for (const type of types) {
+    getGroup(type).types.push(type);
+  }
+  for (const variant of variants) {
+    getGroup(variant[1]).variants.push(variant);
+  }
+  const root = getCommonDirectory(Array.from(groups.keys()));
+  return new Map(
+    Array.from(groups).map(([path, group]) => {
+      const { dir, name } = parse(relative(root, path));
+      // `.d.ts` files are written as modules
+      return [join(dir, name.replace(/\.d$/, '')), group];
+    }),
+  );
+}
+
+function getCommonDirectory(paths: string[]): string {
+  const [first = [], ...rest] = paths.map((e) => dirname(e).split('/'));
+  let length = first.length;
+  for (const parts of rest) {
+    length = Math.min(length, parts.length);
+    while (
+      parts.slice(0, length).join('/') !== first.slice(0, length).join('/')
+    ) {
+      length--;
+    }
+  }
+  return first.slice(0, length).join('/') || '/';
+}
+
+function getEnumNames(types: TypeDeclaration[]): Set<string> {
+  return new Set(
+    types.filter((e) => Node.isEnumDeclaration(e)).map((e) => e.getName()),
+  );
+}
+
+/**
+ * Whether any request of the controllers matches the predicate
+ */
+export function hasRequest(
+  controllers: Parser.Controller[],
+  predicate: (request: Parser.Request) => boolean,
+): boolean {
+  return controllers.some((controller) =>
+    Array.from(controller.requests).some(predicate),
+  );
+}
+
+/**
+ * Import names exported by other files. Names declared in the file or imported already are skipped
+ */
+function importNames(
+  src: SourceFile,
+  exports: Map<SourceFile, string[]>,
+  isTypeOnly: boolean,
+): void {
+  const seen = new Set(exports.get(src) ?? []);
+  for (const [other, names] of exports) {
+    const namedImports = names.filter((e) => !seen.has(e));
+    if (other === src || !namedImports.length) {
+      continue;
+    }
+    namedImports.forEach((e) => seen.add(e));
+    src.addImportDeclaration({
+      namedImports,
+      isTypeOnly,
+      moduleSpecifier: resolveRelativeModule(
+        other.getFilePath(),
+        src.getFilePath(),
+      ),
+    });
+  }
+}
+
+function getExportedNames(src: SourceFile): string[] {
+  return Array.from(src.getExportedDeclarations().keys());
+}
+
+/**
+ * Export all declarations of a file
+ * @returns Names of the declarations
+ */
+function exportStatements(src: SourceFile): string[] {
+  const names: string[] = [];
+  for (const statement of src.getStatements()) {
+    if (Node.isVariableStatement(statement)) {
+      statement.setIsExported(true);
+      names.push(...statement.getDeclarations().map((e) => e.getName()));
+    } else if (
+      (Node.isFunctionDeclaration(statement) ||
+        Node.isClassDeclaration(statement) ||
+        Node.isInterfaceDeclaration(statement) ||
+        Node.isTypeAliasDeclaration(statement) ||
+        Node.isEnumDeclaration(statement)) &&
+      statement.getName()
+    ) {
+      statement.setIsExported(true);
+      names.push(statement.getName());
+    }
+  }
+  return names;
+}
+
+/**
+ * Get files generated before(with the generated marker) in a directory which are not emitted any more
+ */
+function getStaleFiles(dir: string, files: Writer.File[]): Writer.File[] {
+  const emitted = new Set(files.map((file) => resolve(file.path)));
+  const stale: Writer.File[] = [];
+  const visit = (path: string) => {
+    for (const entry of readdirSync(path, { withFileTypes: true })) {
+      const file = join(path, entry.name);
+      if (entry.isDirectory()) {
+        visit(file);
+      } else if (
+        entry.isFile() &&
+        /\.tsx?$/.test(entry.name) &&
+        !emitted.has(resolve(file)) &&
+        isGeneratedFile(readFileSync(file, 'utf-8'))
+      ) {
+        stale.push({ path: file, content: null });
+      }
+    }
+  };
+  if (existsSync(dir)) {
+    visit(dir);
+  }
+  return stale;
+}
+
+/**
+ * Whether the leading comments of a file include the generated marker
+ */
+function isGeneratedFile(content: string): boolean {
+  return (ts.getLeadingCommentRanges(content, 0) ?? []).some(
+    (range) => content.slice(range.pos, range.end) === GeneratedComment,
+  );
+}
+
+export function resolveRelativeModule(
+  moduleSpecifier: string,
+  from: string,
+): string {
   const relativePath = relative(dirname(from), moduleSpecifier);
   const { dir, name } = parse(relativePath);
   moduleSpecifier = join(dir, name);
@@ -368,11 +1363,4 @@ function resolveRelativeModule(moduleSpecifier: string, from: string): string {
   return moduleSpecifier;
 }
 
-function joinPaths(...args: string[]): string {
-  return ['', ...args, '']
-    .join('/')
-    .replace(/\/{2,}/g, '/')
-    .replace(/(.+)\/$/, '$1');
-}
-
 export default AxiosWriter;
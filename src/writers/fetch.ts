@@ -0,0 +1,205 @@
+import { printNode, SourceFile, ts } from 'ts-morph';
+import { Config } from '../config';
+import { Parser } from '../types';
+import AxiosWriter, {
+  createDataExpression,
+  createHeadersExpression,
+  createMethodExpression,
+  createMergedObjectExpression,
+  createUrlStringExpression,
+  RequestFunctionNode,
+  resolveRelativeModule,
+} from './axios';
+
+const Runtime = `
+export const defaults: { baseUrl: string; fetch: typeof fetch } = {
+    baseUrl: __BASE_URL__,
+    fetch: __FETCH__,
+};
+
+export class HttpError<T = any> extends Error {
+    constructor(readonly status: number, readonly statusText: string, readonly data: T, readonly response: Response) {
+        super(\`Request failed with status code \${status}\`);
+        this.name = "HttpError";
+    }
+}
+
+interface RequestOptions {
+    method: string;
+    url: string;
+    headers?: Record<string, string>;
+    query?: any;
+    body?: any;
+}
+
+function stringifyQuery(value: any, prefix: string, pairs: string[]): string[] {
+    if (value === undefined || value === null) {
+        return pairs;
+    }
+    if (value instanceof Date) {
+        pairs.push(\`\${encodeURIComponent(prefix)}=\${encodeURIComponent(value.toISOString())}\`);
+    } else if (Array.isArray(value)) {
+        value.forEach((item, i) => {
+            const nested = item !== null && typeof item === "object" && !(item instanceof Date);
+            stringifyQuery(item, nested ? \`\${prefix}[\${i}]\` : \`\${prefix}[]\`, pairs);
+        });
+    } else if (typeof value === "object") {
+        Object.keys(value).forEach((key) => stringifyQuery(value[key], prefix ? \`\${prefix}[\${key}]\` : key, pairs));
+    } else {
+        pairs.push(\`\${encodeURIComponent(prefix)}=\${encodeURIComponent(String(value))}\`);
+    }
+    return pairs;
+}
+
+function buildUrl(url: string, query?: any): string {
+    const search = query ? stringifyQuery(query, "", []).join("&") : "";
+    return defaults.baseUrl + url + (search ? "?" + search : "");
+}
+
+async function sendRequest<T>({ method, url, headers: defaultHeaders, query, body }: RequestOptions, init?: RequestInit): Promise<T> {
+    const headers = new Headers(init && init.headers);
+    if (defaultHeaders) {
+        Object.keys(defaultHeaders).forEach((key) => {
+            if (!headers.has(key)) {
+                headers.set(key, defaultHeaders[key]);
+            }
+        });
+    }
+    // the boundary of form data is set by fetch
+    const isForm = typeof FormData !== "undefined" && body instanceof FormData;
+    if (body !== undefined && !isForm && !headers.has("Content-Type")) {
+        headers.set("Content-Type", "application/json");
+    }
+    const res = await defaults.fetch(buildUrl(url, query), {
+        ...init,
+        method: method.toUpperCase(),
+        headers,
+        body: body === undefined || isForm ? body : JSON.stringify(body),
+    });
+    const contentType = res.headers.get("Content-Type") || "";
+    const text = await res.text();
+    const data = text && contentType.includes("json") ? JSON.parse(text) : text || undefined;
+    if (!res.ok) {
+        throw new HttpError(res.status, res.statusText, data, res);
+    }
+    return data;
+}
+`;
+
+class FetchWriter extends AxiosWriter<Config.FetchOutput> {
+  protected addImports(src: SourceFile): void {
+    if (this.config.httpModule) {
+      src.addImportDeclaration({
+        defaultImport: 'fetchImpl',
+        moduleSpecifier: resolveRelativeModule(
+          this.config.httpModule,
+          src.getFilePath(),
+        ),
+      });
+    }
+  }
+
+  protected writeRuntime(
+    src: SourceFile,
+    controllers: Parser.Controller[],
+  ): void {
+    src.addStatements(
+      Runtime.replace(
+        '__BASE_URL__',
+        JSON.stringify(this.config.baseUrl ?? ''),
+      ).replace(
+        '__FETCH__',
+        this.config.httpModule
+          ? 'fetchImpl'
+          : '(input, init) => fetch(input, init)',
+      ),
+    );
+    super.writeRuntime(src, controllers);
+  }
+
+  protected getOptionsType(): string {
+    return 'RequestInit';
+  }
+
+  protected addStatement(
+    func: RequestFunctionNode,
+    request: Parser.Request,
+    url: string,
+  ): void {
+    const props: ts.ObjectLiteralElementLike[] = [
+      ts.factory.createPropertyAssignment(
+        'method',
+        createMethodExpression(request),
+      ),
+      ts.factory.createPropertyAssignment(
+        'url',
+        createUrlStringExpression(request, url),
+      ),
+    ];
+    if (request.headers || request.headerParams) {
+      props.push(
+        ts.factory.createPropertyAssignment(
+          'headers',
+          createHeadersExpression(request),
+        ),
+      );
+    }
+    if (request.query) {
+      props.push(
+        ts.factory.createPropertyAssignment(
+          'query',
+          createMergedObjectExpression(request.query),
+        ),
+      );
+    }
+    if (request.data || request.files) {
+      props.push(
+        ts.factory.createPropertyAssignment(
+          'body',
+          createDataExpression(request),
+        ),
+      );
+    }
+    const args: ts.Expression[] = [
+      ts.factory.createObjectLiteralExpression(props),
+    ];
+    if (this.config.options) {
+      args.push(ts.factory.createIdentifier(this.config.options));
+    }
+    func.addStatements(
+      printNode(
+        ts.factory.createReturnStatement(
+          this.parseResponse(
+            ts.factory.createCallExpression(
+              ts.factory.createIdentifier('sendRequest'),
+              [
+                ts.factory.createTypeReferenceNode(
+                  this.getResponseType(request),
+                ),
+              ],
+              args,
+            ),
+            request,
+          ),
+        ),
+      ),
+    );
+  }
+
+  protected createEventSourceUrl(
+    request: Parser.Request,
+    url: string,
+  ): ts.Expression {
+    const args = [createUrlStringExpression(request, url)];
+    if (request.query) {
+      args.push(createMergedObjectExpression(request.query));
+    }
+    return ts.factory.createCallExpression(
+      ts.factory.createIdentifier('buildUrl'),
+      null,
+      args,
+    );
+  }
+}
+
+export default FetchWriter;
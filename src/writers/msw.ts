@@ -0,0 +1,354 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  Node,
+  Project,
+  SymbolFlags,
+  SyntaxKind,
+  ts,
+  Type,
+  TypeFlags,
+} from 'ts-morph';
+import { Config } from '../config';
+import { joinPaths } from '../parsers/utils';
+import { Parser, Writer } from '../types';
+import { getSerializedProperty } from './serialization';
+import { WireTypes } from './wire';
+
+const Words = [
+  'lorem',
+  'ipsum',
+  'dolor',
+  'sit',
+  'amet',
+  'consectetur',
+  'adipiscing',
+  'elit',
+  'sed',
+  'do',
+  'eiusmod',
+  'tempor',
+  'incididunt',
+  'labore',
+  'dolore',
+  'magna',
+  'aliqua',
+];
+
+/**
+ * Returns numbers in [0, 1)
+ */
+type Random = () => number;
+
+class MswWriter extends Writer {
+  /**
+   * Wire types of the current emit
+   */
+  protected wire: WireTypes;
+
+  constructor(protected readonly config: Config.MswOutput, parser: Parser) {
+    super(config, parser);
+  }
+
+  emit(): Writer.File[] {
+    this.wire = new WireTypes(this.config.wireTypes);
+    const project = new Project();
+    const src = project.createSourceFile(
+      this.config.dest,
+      this.config.comment,
+      {
+        overwrite: true,
+      },
+    );
+    src.addImportDeclaration({
+      namedImports: ['http', 'HttpResponse'],
+      moduleSpecifier: 'msw',
+    });
+    const handlers: string[] = [];
+    for (const controller of this.getControllers()) {
+      for (const request of controller.requests) {
+        handlers.push(this.writeHandler(controller, request));
+      }
+    }
+    src.addStatements((writer) => {
+      writer
+        .newLine()
+        .write('export const handlers = [')
+        .indent(() => {
+          for (const handler of handlers) {
+            writer.writeLine(handler + ',');
+          }
+        });
+      writer.write('];');
+    });
+    return [{ path: this.config.dest, content: src.getFullText() }];
+  }
+
+  /**
+   * Write a handler responding with fixture data if found, otherwise with fake data of the response type
+   */
+  protected writeHandler(
+    controller: Parser.Controller,
+    request: Parser.Request,
+  ): string {
+    // the origin(e.g. `http://localhost:3000` or `*`) is not a path
+    const path =
+      (this.config.baseUrl ?? '').replace(/\/$/, '') +
+      joinPaths(request.baseUrl ?? controller.baseUrl, request.url);
+    const fixture = this.readFixture(controller, request);
+    const random = createRandom(
+      hash(`${this.config.seed ?? 0}:${controller.name}.${request.name}`),
+    );
+    let response: string;
+    if (request.sse) {
+      const events = fixture
+        ? [].concat(fixture)
+        : Array.from({ length: this.getArrayLength() }, () =>
+            this.getFakeValue(request.res, request, random),
+          );
+      const body = events.map((e) => `data: ${JSON.stringify(e)}\n\n`);
+      response = `new HttpResponse(${JSON.stringify(
+        body.join(''),
+      )}, { headers: { "Content-Type": "text/event-stream" } })`;
+    } else if (
+      fixture === undefined &&
+      request.res.getFlags() & (TypeFlags.Void | TypeFlags.Undefined)
+    ) {
+      response = 'new HttpResponse(null)';
+    } else {
+      const data = fixture ?? this.getFakeValue(request.res, request, random);
+      response =
+        typeof data === 'string'
+          ? `HttpResponse.text(${JSON.stringify(data)})`
+          : `HttpResponse.json(${JSON.stringify(data, null, 4)})`;
+    }
+    return `http.${request.method}(${JSON.stringify(path)}, () => ${response})`;
+  }
+
+  /**
+   * Read `<fixtures>/<controller>/<request>.json` if it exists
+   */
+  protected readFixture(
+    controller: Parser.Controller,
+    request: Parser.Request,
+  ): any {
+    if (!this.config.fixtures) {
+      return;
+    }
+    const path = join(
+      this.config.fixtures,
+      controller.name,
+      `${request.name}.json`,
+    );
+    if (existsSync(path)) {
+      return JSON.parse(readFileSync(path, 'utf-8'));
+    }
+  }
+
+  protected getArrayLength(): number {
+    return this.config.arrayLength ?? 3;
+  }
+
+  /**
+   * Create fake data of a type as serialized to JSON. Types mapped by wire types are faked as their wire types
+   * @param key Property name, used to pick strings like emails
+   */
+  protected getFakeValue(
+    type: Type<ts.Type>,
+    request: Parser.Request,
+    random: Random,
+    key = '',
+    visited = new Set<Type<ts.Type>>(),
+  ): any {
+    if (
+      type.isAny() ||
+      type.isUnknown() ||
+      type.isNull() ||
+      type.getFlags() & TypeFlags.TypeParameter
+    ) {
+      return null;
+    }
+    if (type.getSymbol()?.getName() === 'Date') {
+      // between 2020 and 2025
+      return new Date(
+        Date.UTC(2020, 0, 1) + Math.floor(random() * 5 * 365 * 86400) * 1000,
+      ).toISOString();
+    }
+    const wire = this.wire.getWireType(type);
+    if (wire) {
+      return wire.type
+        ? this.getFakeValue(wire.type, request, random, key, visited)
+        : getFakeScalar(wire.text, key, random);
+    }
+    if (type.isBoolean()) {
+      return random() < 0.5;
+    }
+    if (type.isString() || type.getFlags() & TypeFlags.TemplateLiteral) {
+      return getFakeString(key, random);
+    }
+    if (type.isNumber() || type.getFlags() & TypeFlags.BigInt) {
+      return Math.floor(random() * 1000) + 1;
+    }
+    if (type.isBooleanLiteral()) {
+      return type.getText() === 'true';
+    }
+    if (type.isStringLiteral() || type.isNumberLiteral()) {
+      return type.getLiteralValue();
+    }
+    if (type.isUnion()) {
+      const types = type.getUnionTypes().filter((e) => !e.isUndefined());
+      // enums and other unions pick a member
+      return types.length
+        ? this.getFakeValue(
+            types[Math.floor(random() * types.length)],
+            request,
+            random,
+            key,
+            visited,
+          )
+        : null;
+    }
+    if (type.isIntersection()) {
+      return Object.assign(
+        {},
+        ...type
+          .getIntersectionTypes()
+          .map((e) => this.getFakeValue(e, request, random, key, visited)),
+      );
+    }
+    if (type.isArray()) {
+      const element = type.getArrayElementType();
+      // recursive types end with empty arrays
+      const length = visited.has(element) ? 0 : this.getArrayLength();
+      return Array.from({ length }, () =>
+        this.getFakeValue(element, request, random, key, visited),
+      );
+    }
+    if (type.isTuple()) {
+      return type
+        .getTupleElements()
+        .map((e) => this.getFakeValue(e, request, random, key, visited));
+    }
+    if (['Blob', 'File'].includes(type.getSymbol()?.getName())) {
+      return null;
+    }
+    if (type.isObject()) {
+      if (visited.has(type)) {
+        return null;
+      }
+      visited.add(type);
+      const value = this.getFakeObject(type, request, random, visited);
+      visited.delete(type);
+      return value;
+    }
+    return null;
+  }
+
+  /**
+   * Create fake data of an object type. Optional properties appear randomly
+   */
+  protected getFakeObject(
+    type: Type<ts.Type>,
+    request: Parser.Request,
+    random: Random,
+    visited: Set<Type<ts.Type>>,
+  ): Record<string, any> {
+    const value: Record<string, any> = {};
+    for (const prop of type.getProperties()) {
+      const decl = prop.getDeclarations()[0];
+      if (
+        Node.isMethodDeclaration(decl) ||
+        Node.isMethodSignature(decl) ||
+        (Node.isModifierable(decl) &&
+          (decl.hasModifier(SyntaxKind.PrivateKeyword) ||
+            decl.hasModifier(SyntaxKind.ProtectedKeyword) ||
+            decl.hasModifier(SyntaxKind.StaticKeyword)))
+      ) {
+        continue;
+      }
+      const serialized = getSerializedProperty(prop, request.groups);
+      if (!serialized) {
+        continue;
+      }
+      if (prop.hasFlags(SymbolFlags.Optional) && random() < 0.5) {
+        continue;
+      }
+      const propType = serialized.type ?? prop.getTypeAtLocation(request.func);
+      value[serialized.name] = serialized.array
+        ? Array.from({ length: this.getArrayLength() }, () =>
+            this.getFakeValue(
+              propType,
+              request,
+              random,
+              serialized.name,
+              visited,
+            ),
+          )
+        : this.getFakeValue(
+            propType,
+            request,
+            random,
+            serialized.name,
+            visited,
+          );
+    }
+    return value;
+  }
+}
+
+/**
+ * Create fake data of a configured wire type. Types other than primitives are faked as `null`
+ */
+function getFakeScalar(text: string, key: string, random: Random): any {
+  switch (text) {
+    case 'string':
+      return getFakeString(key, random);
+    case 'number':
+      return Math.floor(random() * 1000) + 1;
+    case 'boolean':
+      return random() < 0.5;
+    default:
+      return null;
+  }
+}
+
+function getFakeString(key: string, random: Random): string {
+  const word = () => Words[Math.floor(random() * Words.length)];
+  if (/email/i.test(key)) {
+    return `${word()}${Math.floor(random() * 100)}@example.com`;
+  }
+  if (/(url|link)$/i.test(key)) {
+    return `https://example.com/${word()}`;
+  }
+  if (/(^id|Id|_id)$/.test(key)) {
+    return Math.floor(random() * 0xffffffff)
+      .toString(16)
+      .padStart(8, '0');
+  }
+  return Array.from({ length: Math.floor(random() * 3) + 1 }, word).join(' ');
+}
+
+/**
+ * Seeded random number generator(mulberry32), so that fake data is the same on every run
+ */
+function createRandom(seed: number): Random {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * FNV-1a hash of a string, so that each endpoint gets its own seed
+ */
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h = Math.imul(h ^ text.charCodeAt(i), 0x01000193);
+  }
+  return h >>> 0;
+}
+
+export default MswWriter;
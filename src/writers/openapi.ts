@@ -0,0 +1,610 @@
+import { extname } from 'path';
+import {
+  ClassDeclaration,
+  EnumDeclaration,
+  InterfaceDeclaration,
+  JSDoc,
+  Node,
+  SymbolFlags,
+  SyntaxKind,
+  ts,
+  Type,
+  TypeAliasDeclaration,
+  TypeFlags,
+} from 'ts-morph';
+import { Config } from '../config';
+import { joinPaths } from '../parsers/utils';
+import { Parser, Writer } from '../types';
+import { getSerializedProperty, GroupVariants } from './serialization';
+
+type Declaration =
+  | EnumDeclaration
+  | InterfaceDeclaration
+  | ClassDeclaration
+  | TypeAliasDeclaration;
+
+interface Schema {
+  [key: string]: any;
+}
+
+interface Operation {
+  operationId: string;
+  tags: string[];
+  summary?: string;
+  description?: string;
+  deprecated?: boolean;
+  parameters?: Schema[];
+  requestBody?: Schema;
+  responses: Schema;
+}
+
+class OpenapiWriter extends Writer {
+  /**
+   * Declarations and class variants of the current emit. Nodes are not kept between emits in watch mode
+   */
+  protected declarations: Map<string, Declaration>;
+  protected variants: GroupVariants;
+  /**
+   * Serialization groups of the schema being written
+   */
+  protected groups?: string[];
+
+  constructor(protected readonly config: Config.OpenapiOutput, parser: Parser) {
+    super(config, parser);
+  }
+
+  emit(): Writer.File[] {
+    this.declarations = new Map();
+    this.variants = new GroupVariants();
+    for (const type of this.parser.getTypes()) {
+      this.declarations.set(type.getName(), type);
+    }
+    const doc = {
+      openapi: '3.1.0',
+      info: {
+        title: 'API',
+        version: '1.0.0',
+        ...this.config.info,
+      },
+      servers: this.config.servers,
+      tags: [] as Schema[],
+      paths: {} as Record<string, Record<string, Operation>>,
+      components: {
+        schemas: this.writeSchemas(),
+      },
+    };
+    for (const controller of this.getControllers()) {
+      const tag: Schema = { name: controller.name };
+      const description = getDescription(controller.docs);
+      if (description) {
+        tag.description = description;
+      }
+      doc.tags.push(tag);
+      for (const request of controller.requests) {
+        const path = toOpenapiPath(
+          joinPaths(request.baseUrl ?? controller.baseUrl, request.url),
+        );
+        if (request.method === 'all') {
+          // `@All()` routes are written for each method
+          for (const method of ['get', 'post', 'put', 'patch', 'delete']) {
+            const operation = this.writeOperation(controller, request);
+            operation.operationId += `_${method}`;
+            doc.paths[path] = { ...doc.paths[path], [method]: operation };
+          }
+        } else {
+          doc.paths[path] = {
+            ...doc.paths[path],
+            [request.method]: this.writeOperation(controller, request),
+          };
+        }
+      }
+    }
+    Object.assign(doc.components.schemas, this.writeVariantSchemas());
+
+    const content = /\.ya?ml$/i.test(extname(this.config.dest))
+      ? toYaml(doc)
+      : JSON.stringify(doc, null, 2) + '\n';
+    return [{ path: this.config.dest, content }];
+  }
+
+  protected writeSchemas(): Record<string, Schema> {
+    const schemas: Record<string, Schema> = {};
+    for (const [name, decl] of this.declarations) {
+      const schema = this.getDeclarationSchema(decl);
+      const description = getDescription(decl.getJsDocs());
+      if (description) {
+        schema.description = description;
+      }
+      schemas[name] = schema;
+    }
+    return schemas;
+  }
+
+  /**
+   * Write schemas of class variants serialized with groups, named like `User_admin`
+   */
+  protected writeVariantSchemas(): Record<string, Schema> {
+    const schemas: Record<string, Schema> = {};
+    for (const [name, cls, groups] of this.variants.entries()) {
+      if (this.declarations.get(cls.getName()) !== cls) {
+        continue;
+      }
+      this.groups = groups;
+      const schema = this.getObjectSchema(cls.getType(), cls);
+      this.groups = undefined;
+      const description = getDescription(cls.getJsDocs());
+      if (description) {
+        schema.description = description;
+      }
+      schemas[name] = schema;
+    }
+    return schemas;
+  }
+
+  protected writeOperation(
+    controller: Parser.Controller,
+    request: Parser.Request,
+  ): Operation {
+    const operation: Operation = {
+      operationId: `${controller.name}_${request.name}`,
+      tags: [controller.name],
+      summary: undefined,
+      description: undefined,
+      deprecated: undefined,
+      parameters: undefined,
+      requestBody: undefined,
+      responses: {},
+    };
+    const description = getDescription(request.docs);
+    if (description) {
+      const [summary, ...rest] = description.split('\n');
+      operation.summary = summary;
+      if (rest.join('\n').trim()) {
+        operation.description = rest.join('\n').trim();
+      }
+    }
+    if (
+      request.docs.some((doc) =>
+        doc.getTags().some((tag) => tag.getTagName() === 'deprecated'),
+      )
+    ) {
+      operation.deprecated = true;
+    }
+
+    const parameters: Schema[] = [];
+    for (const { property, parameter } of request.params ?? []) {
+      parameters.push({
+        name: property,
+        in: 'path',
+        required: true,
+        schema: this.getSchema(parameter.getType(), request.func),
+      });
+    }
+    for (const [name, value] of Object.entries(request.headers ?? {})) {
+      parameters.push({
+        name,
+        in: 'header',
+        required: true,
+        schema: { type: 'string', const: value },
+      });
+    }
+    if (request.query) {
+      parameters.push(...this.getParameters(request.query, 'query', request));
+    }
+    if (request.headerParams) {
+      parameters.push(
+        ...this.getParameters(request.headerParams, 'header', request),
+      );
+    }
+    if (parameters.length) {
+      operation.parameters = parameters;
+    }
+
+    if (request.data || request.files) {
+      let schema: Schema | undefined;
+      if (Array.isArray(request.data)) {
+        schema = this.getPartialsSchema(request.data, request);
+      } else if (request.data) {
+        schema = this.getSchema(request.data.getType(), request.func);
+      }
+      if (request.files) {
+        // file fields are merged into form data
+        const files = this.getPartialsSchema(request.files, request);
+        schema = schema ? { allOf: [schema, files] } : files;
+      }
+      operation.requestBody = {
+        required:
+          Array.isArray(request.data) ||
+          !request.data ||
+          !request.data.isOptional(),
+        content: {
+          [request.files ? 'multipart/form-data' : 'application/json']: {
+            schema,
+          },
+        },
+      };
+    }
+
+    const res = request.res;
+    if (res.getFlags() & (TypeFlags.Void | TypeFlags.Undefined)) {
+      operation.responses['200'] = { description: 'OK' };
+    } else {
+      operation.responses['200'] = {
+        description: 'OK',
+        content: {
+          [request.sse ? 'text/event-stream' : 'application/json']: {
+            schema: this.getResponseSchema(request),
+          },
+        },
+      };
+    }
+    return operation;
+  }
+
+  /**
+   * Get the response schema. Classes serialized with groups refer to their variants
+   */
+  protected getResponseSchema(request: Parser.Request): Schema {
+    if (!request.groups) {
+      return this.getSchema(request.res, request.func);
+    }
+    this.variants.add(request.res, request.groups);
+    this.groups = request.groups;
+    try {
+      return this.getSchema(request.res, request.func);
+    } finally {
+      this.groups = undefined;
+    }
+  }
+
+  /**
+   * Get query/header parameters. A whole parameter object is expanded into separate parameters
+   */
+  protected getParameters(
+    group: Parser.Parameter | Parser.PartialParameterDeclaration[],
+    location: 'query' | 'header',
+    request: Parser.Request,
+  ): Schema[] {
+    if (Array.isArray(group)) {
+      return group.map(({ property, parameter }) => ({
+        name: property,
+        in: location,
+        required: !parameter.isOptional(),
+        schema: this.getSchema(parameter.getType(), request.func),
+      }));
+    }
+    return group
+      .getType()
+      .getProperties()
+      .map((prop) => ({
+        name: prop.getName(),
+        in: location,
+        required: !prop.hasFlags(SymbolFlags.Optional),
+        schema: this.getSchema(
+          prop.getTypeAtLocation(request.func),
+          request.func,
+        ),
+      }));
+  }
+
+  protected getPartialsSchema(
+    partials: Parser.PartialParameterDeclaration[],
+    request: Parser.Request,
+  ): Schema {
+    const schema: Schema = {
+      type: 'object',
+      properties: Object.fromEntries(
+        partials.map(({ property, parameter }) => [
+          property,
+          this.getSchema(parameter.getType(), request.func),
+        ]),
+      ),
+    };
+    const required = partials
+      .filter(({ parameter }) => !parameter.isOptional())
+      .map(({ property }) => property);
+    if (required.length) {
+      schema.required = required;
+    }
+    return schema;
+  }
+
+  protected getDeclarationSchema(decl: Declaration): Schema {
+    switch (decl.getKind()) {
+      case SyntaxKind.EnumDeclaration:
+        const values = decl
+          .asKind(SyntaxKind.EnumDeclaration)
+          .getMembers()
+          .map((member) => member.getValue());
+        return {
+          type: values.every((e) => typeof e === 'number')
+            ? 'number'
+            : 'string',
+          enum: values,
+        };
+      case SyntaxKind.InterfaceDeclaration:
+      case SyntaxKind.ClassDeclaration:
+        return this.getObjectSchema(decl.getType(), decl);
+      case SyntaxKind.TypeAliasDeclaration:
+        return this.getSchema(decl.getType(), decl, true);
+    }
+  }
+
+  /**
+   * Convert a type into schema. Types emitted in `components/schemas` are referenced by `$ref`
+   * @param type Type to convert
+   * @param node Enclosing node to resolve property types
+   * @param root Do not replace the type itself with a reference
+   */
+  protected getSchema(
+    type: Type<ts.Type>,
+    node: Node,
+    root?: boolean,
+    visited = new Set<Type<ts.Type>>(),
+  ): Schema {
+    if (!root) {
+      const ref = this.getReference(type);
+      if (ref) {
+        return { $ref: `#/components/schemas/${ref}` };
+      }
+    }
+    if (type.isAny() || type.isUnknown()) {
+      return {};
+    }
+    if (type.isNull()) {
+      return { type: 'null' };
+    }
+    if (type.isBoolean()) {
+      return { type: 'boolean' };
+    }
+    if (type.isString()) {
+      return { type: 'string' };
+    }
+    if (type.isNumber()) {
+      return { type: 'number' };
+    }
+    if (type.getFlags() & TypeFlags.BigInt) {
+      return { type: 'integer', format: 'int64' };
+    }
+    if (type.isBooleanLiteral()) {
+      return { type: 'boolean', const: type.getText() === 'true' };
+    }
+    if (type.isStringLiteral() || type.isNumberLiteral()) {
+      const value = type.getLiteralValue();
+      return { type: typeof value, const: value };
+    }
+    if (type.isUnion()) {
+      // members of nullable enums are referred by the enum
+      const nonNullable = type.getNonNullableType();
+      if (nonNullable !== type && nonNullable.isEnum()) {
+        const schema = this.getSchema(nonNullable, node, false, visited);
+        return type.getUnionTypes().some((e) => e.isNull())
+          ? { anyOf: [schema, { type: 'null' }] }
+          : schema;
+      }
+      const types = type.getUnionTypes().filter((e) => !e.isUndefined());
+      // `boolean` is a union of `true` and `false`
+      const rest = types.filter((e) => !e.isBooleanLiteral());
+      if (types.length - rest.length === 2) {
+        if (!rest.length) {
+          return { type: 'boolean' };
+        }
+        return {
+          anyOf: [
+            { type: 'boolean' },
+            ...rest.map((e) => this.getSchema(e, node, false, visited)),
+          ],
+        };
+      }
+      if (types.length === 1) {
+        return this.getSchema(types[0], node, false, visited);
+      }
+      if (types.every((e) => e.isStringLiteral() || e.isNumberLiteral())) {
+        const values = types.map((e) => e.getLiteralValue());
+        const kinds = new Set(values.map((e) => typeof e));
+        return kinds.size === 1
+          ? { type: Array.from(kinds)[0], enum: values }
+          : { enum: values };
+      }
+      return {
+        anyOf: types.map((e) => this.getSchema(e, node, false, visited)),
+      };
+    }
+    if (type.isIntersection()) {
+      return {
+        allOf: type
+          .getIntersectionTypes()
+          .map((e) => this.getSchema(e, node, false, visited)),
+      };
+    }
+    if (type.isArray()) {
+      return {
+        type: 'array',
+        items: this.getSchema(type.getArrayElementType(), node, false, visited),
+      };
+    }
+    if (type.isTuple()) {
+      const items = type
+        .getTupleElements()
+        .map((e) => this.getSchema(e, node, false, visited));
+      return {
+        type: 'array',
+        prefixItems: items,
+        minItems: items.length,
+        maxItems: items.length,
+      };
+    }
+    if (type.getSymbol()?.getName() === 'Date') {
+      return { type: 'string', format: 'date-time' };
+    }
+    if (['Blob', 'File'].includes(type.getSymbol()?.getName())) {
+      return { type: 'string', format: 'binary' };
+    }
+    if (type.isObject()) {
+      if (visited.has(type)) {
+        // recursive anonymous types
+        return {};
+      }
+      visited.add(type);
+      const schema = this.getObjectSchema(type, node, visited);
+      visited.delete(type);
+      return schema;
+    }
+    return {};
+  }
+
+  protected getObjectSchema(
+    type: Type<ts.Type>,
+    node: Node,
+    visited = new Set<Type<ts.Type>>(),
+  ): Schema {
+    const schema: Schema = { type: 'object' };
+    const properties: Record<string, Schema> = {};
+    const required: string[] = [];
+    for (const prop of type.getProperties()) {
+      const decl = prop.getDeclarations()[0];
+      if (
+        Node.isMethodDeclaration(decl) ||
+        Node.isMethodSignature(decl) ||
+        (Node.isModifierable(decl) &&
+          (decl.hasModifier(SyntaxKind.PrivateKeyword) ||
+            decl.hasModifier(SyntaxKind.ProtectedKeyword) ||
+            decl.hasModifier(SyntaxKind.StaticKeyword)))
+      ) {
+        continue;
+      }
+      const serialized = getSerializedProperty(prop, this.groups);
+      if (!serialized) {
+        continue;
+      }
+      let propSchema = this.getSchema(
+        serialized.type ?? prop.getTypeAtLocation(node),
+        node,
+        false,
+        visited,
+      );
+      if (serialized.array) {
+        propSchema = { type: 'array', items: propSchema };
+      }
+      if (Node.isJSDocable(decl)) {
+        const description = getDescription(decl.getJsDocs());
+        if (description) {
+          propSchema.description = description;
+        }
+      }
+      properties[serialized.name] = propSchema;
+      if (!prop.hasFlags(SymbolFlags.Optional)) {
+        required.push(serialized.name);
+      }
+    }
+    schema.properties = properties;
+    if (required.length) {
+      schema.required = required;
+    }
+    const indexType = type.getStringIndexType() ?? type.getNumberIndexType();
+    if (indexType) {
+      schema.additionalProperties = this.getSchema(
+        indexType,
+        node,
+        false,
+        visited,
+      );
+    }
+    return schema;
+  }
+
+  /**
+   * Get schema name if the type is emitted in `components/schemas`
+   */
+  protected getReference(type: Type<ts.Type>): string | undefined {
+    // generic types are expanded inline
+    if (type.getAliasTypeArguments().length) {
+      return;
+    }
+    const symbol = type.getAliasSymbol() ?? type.getSymbol();
+    if (!symbol) {
+      return;
+    }
+    if (!type.getAliasSymbol() && type.getTypeArguments().length) {
+      return;
+    }
+    const decl = this.declarations.get(symbol.getName());
+    if (decl && symbol.getDeclarations().includes(decl)) {
+      const variant =
+        this.groups && Node.isClassDeclaration(decl)
+          ? this.variants.get(this.groups).get(decl)
+          : undefined;
+      return variant ?? symbol.getName();
+    }
+  }
+}
+
+function getDescription(docs: JSDoc[]): string | undefined {
+  const description = docs
+    .map((doc) => doc.getDescription().trim())
+    .filter((e) => e)
+    .join('\n');
+  return description || undefined;
+}
+
+function toOpenapiPath(url: string): string {
+  return url.replace(/:(\w+)/g, '{$1}');
+}
+
+/**
+ * Serialize a JSON compatible value into YAML. Nested collections are written in block style
+ */
+function toYaml(value: any, indent = ''): string {
+  if (Array.isArray(value) && value.length) {
+    return value
+      .map((e) => `${indent}-${toYamlValue(e, indent + '  ', true)}`)
+      .join('');
+  }
+  if (isObject(value) && Object.keys(value).length) {
+    return Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .map(
+        ([k, v]) =>
+          `${indent}${toYamlScalar(k)}:${toYamlValue(v, indent + '  ')}`,
+      )
+      .join('');
+  }
+  return indent + toYamlScalar(value) + '\n';
+}
+
+function toYamlValue(value: any, indent: string, inline?: boolean): string {
+  if (
+    (Array.isArray(value) && value.length) ||
+    (isObject(value) && Object.keys(value).length)
+  ) {
+    // items of a sequence start on the same line as the dash
+    return inline
+      ? ' ' + toYaml(value, indent).trimStart()
+      : '\n' + toYaml(value, indent);
+  }
+  return ' ' + toYaml(value);
+}
+
+function isObject(value: any): boolean {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function toYamlScalar(value: any): string {
+  if (Array.isArray(value)) {
+    return '[]';
+  }
+  if (isObject(value)) {
+    return '{}';
+  }
+  if (
+    typeof value === 'string' &&
+    (!/^[A-Za-z_][\w.\/ -]*$/.test(value) ||
+      /\s$/.test(value) ||
+      /^(true|false|null|yes|no|on|off|y|n)$/i.test(value))
+  ) {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+export default OpenapiWriter;
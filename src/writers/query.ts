@@ -0,0 +1,158 @@
+import {
+  FunctionDeclaration,
+  ModuleDeclaration,
+  Node,
+  OptionalKind,
+  ParameterDeclarationStructure,
+  SourceFile,
+} from 'ts-morph';
+import { Config } from '../config';
+import { toCamelCase } from '../naming';
+import { Parser } from '../types';
+
+export interface RequestFunction {
+  request: Parser.Request;
+  func: FunctionDeclaration;
+  /**
+   * Response type text
+   */
+  res: string;
+}
+
+/**
+ * Write a query key factory(`queryKeys`) and TanStack Query hooks of request functions in a controller module.
+ * GET requests get `useXxxQuery` hooks, others get `useXxxMutation` hooks.
+ * In flat layout, the factory is named after the controller(e.g. `usersQueryKeys`) and written before its request functions
+ * @param key Root query key of the controller
+ * @param exclude Name of the request options parameter, which is not passed by hooks
+ */
+export function writeQueryHooks(
+  mod: ModuleDeclaration | SourceFile,
+  key: string,
+  funcs: RequestFunction[],
+  config: Config.AxiosOutput.QueryHooks,
+  exclude?: string,
+): void {
+  const flat = Node.isSourceFile(mod);
+  const keysName = flat ? `${toCamelCase(key)}QueryKeys` : 'queryKeys';
+  const keys = new Map([['all', `[${JSON.stringify(key)}] as const`]]);
+  for (const { request, func, res } of funcs) {
+    if (request.sse) {
+      continue;
+    }
+    const params = getParameters(func, exclude);
+    const typeParams = getTypeParameters(func);
+    const name = capitalize(request.name);
+    // qualified in case parameters shadow the function
+    const fn = flat ? request.name : `${mod.getName()}.${request.name}`;
+    const args = params.map((e) => e.name).join(', ');
+    const docs = request.docs.map((doc) => doc.getStructure());
+    if (request.method === 'get') {
+      // the root key is named `all`, so a request of the same name is suffixed
+      let keyName = request.name;
+      while (keys.has(keyName)) {
+        keyName += '_';
+      }
+      keys.set(
+        keyName,
+        `${typeParams}(${params
+          .map(printParameter)
+          .join(', ')}) => [${JSON.stringify(key)}, ${JSON.stringify(
+          request.name,
+        )}${params.length ? `, { ${args} }` : ''}] as const`,
+      );
+      // keys of generic requests can not be referred without instantiation expressions
+      const queryKey = typeParams
+        ? 'readonly unknown[]'
+        : `ReturnType<typeof ${keysName}.${keyName}>`;
+      const hook = mod.addFunction({
+        name: `use${name}Query`,
+        isExported: true,
+        docs,
+        typeParameters: func.getTypeParameters().map((e) => e.getStructure()),
+        parameters: [
+          ...params,
+          {
+            name: 'options',
+            type: `Omit<UseQueryOptions<${res}, unknown, ${res}, ${queryKey}>, 'queryKey' | 'queryFn'>`,
+            hasQuestionToken: true,
+          },
+        ],
+      });
+      hook.addStatements(
+        `return useQuery({ queryKey: ${keysName}.${keyName}(${args}), queryFn: () => ${fn}(${args}), ...options });`,
+      );
+    } else {
+      const variables = params.length
+        ? `{ ${params.map(printParameter).join('; ')} }`
+        : 'void';
+      const hook = mod.addFunction({
+        name: `use${name}Mutation`,
+        isExported: true,
+        docs,
+        typeParameters: func.getTypeParameters().map((e) => e.getStructure()),
+        parameters: [
+          {
+            name: 'options',
+            type: `Omit<UseMutationOptions<${res}, unknown, ${variables}>, 'mutationFn'>`,
+            hasQuestionToken: true,
+          },
+        ],
+      });
+      const mutationFn = `(${
+        params.length ? `{ ${args} }` : ''
+      }) => ${fn}(${args})`;
+      if (config.invalidate) {
+        hook.addStatements([
+          'const queryClient = useQueryClient();',
+          `return useMutation({ mutationFn: ${mutationFn}, ...options, onSuccess: (...args) => { queryClient.invalidateQueries({ queryKey: ${keysName}.all }); return options?.onSuccess?.(...args); } });`,
+        ]);
+      } else {
+        hook.addStatements(
+          `return useMutation({ mutationFn: ${mutationFn}, ...options });`,
+        );
+      }
+    }
+  }
+  const index = flat
+    ? funcs[0]?.func.getChildIndex() ?? mod.getStatements().length
+    : 0;
+  mod.insertStatements(index, (writer) =>
+    writer
+      .conditionalNewLine(flat && index > 0)
+      .write(`export const ${keysName} = {`)
+      .indent(() => {
+        for (const [name, value] of keys) {
+          writer.writeLine(`${name}: ${value},`);
+        }
+      })
+      .write('};'),
+  );
+}
+
+function getParameters(
+  func: FunctionDeclaration,
+  exclude?: string,
+): OptionalKind<ParameterDeclarationStructure>[] {
+  return func
+    .getParameters()
+    .filter((e) => e.getName() !== exclude)
+    .map((e) => ({
+      name: e.getName(),
+      type: e.getTypeNode()?.getText(),
+      hasQuestionToken: e.hasQuestionToken() || e.hasInitializer(),
+    }));
+}
+
+function getTypeParameters(func: FunctionDeclaration): string {
+  const params = func.getTypeParameters();
+  return params.length ? `<${params.map((e) => e.getText()).join(', ')}>` : '';
+}
+
+function printParameter(param: OptionalKind<ParameterDeclarationStructure>) {
+  return `${param.name}${param.hasQuestionToken ? '?' : ''}: ${param.type}`;
+}
+
+function capitalize(str: string): string {
+  return str.charAt(0).toUpperCase() + str.slice(1);
+}
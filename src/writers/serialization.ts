@@ -0,0 +1,296 @@
+import {
+  ClassDeclaration,
+  Decorator,
+  GetAccessorDeclaration,
+  Node,
+  PropertyDeclaration,
+  Symbol,
+  ts,
+  Type,
+} from 'ts-morph';
+import { evaluateString } from '../parsers/utils';
+
+/**
+ * Property of a plain object serialized by class-transformer
+ */
+export interface SerializedProperty {
+  name: string;
+  /**
+   * Type overriding the declared type(return type of `@Transform()` or class of `@Type()`)
+   */
+  type?: Type<ts.Type>;
+  /**
+   * Whether `type` is the element type of an array property
+   */
+  array?: boolean;
+}
+
+/**
+ * Apply class-transformer decorators(`@Exclude`, `@Expose`, `@Type`, `@Transform`) to a property
+ * @param groups Serialization groups
+ * @returns `undefined` if the property is not serialized
+ */
+export function getSerializedProperty(
+  prop: Symbol,
+  groups?: string[],
+): SerializedProperty | undefined {
+  const decl = prop.getValueDeclaration() ?? prop.getDeclarations()[0];
+  const cls = decl?.getParent();
+  if (
+    !Node.isClassDeclaration(cls) ||
+    !(Node.isPropertyDeclaration(decl) || Node.isGetAccessorDeclaration(decl))
+  ) {
+    return { name: prop.getName() };
+  }
+  const exclude = getOptions(decl.getDecorator('Exclude'));
+  let expose = getOptions(decl.getDecorator('Expose'));
+  if (exclude && !isTrue(exclude.toClassOnly)) {
+    return;
+  }
+  if (expose && isTrue(expose.toClassOnly)) {
+    expose = undefined;
+  }
+  // getters are not serialized unless exposed
+  if (
+    !expose &&
+    (Node.isGetAccessorDeclaration(decl) || cls.getDecorator('Exclude'))
+  ) {
+    return;
+  }
+  const exposeGroups = getStrings(expose?.groups);
+  if (exposeGroups.length && !exposeGroups.some((e) => groups?.includes(e))) {
+    return;
+  }
+  return {
+    name: evaluateString(expose?.name) ?? prop.getName(),
+    ...getOverriddenType(decl),
+  };
+}
+
+/**
+ * Get serialized properties of a type. Methods and setters are skipped
+ */
+export function getSerializedProperties(
+  type: Type<ts.Type>,
+  groups?: string[],
+): [Symbol, SerializedProperty][] {
+  const props: [Symbol, SerializedProperty][] = [];
+  for (const prop of type.getProperties()) {
+    const flags = prop.getFlags();
+    if (
+      flags & ts.SymbolFlags.Method ||
+      (flags & ts.SymbolFlags.SetAccessor &&
+        !(flags & ts.SymbolFlags.GetAccessor))
+    ) {
+      continue;
+    }
+    const serialized = getSerializedProperty(prop, groups);
+    if (serialized) {
+      props.push([prop, serialized]);
+    }
+  }
+  return props;
+}
+
+/**
+ * Get classes reachable from a type whose serialized form depends on groups(`@Expose({ groups })`), directly or through nested classes
+ */
+export function getGroupedClasses(type: Type<ts.Type>): ClassDeclaration[] {
+  const reachable = new Map<ClassDeclaration, Set<ClassDeclaration>>();
+  const classes = new Set<ClassDeclaration>();
+  collectClasses(type, classes, new Set(), reachable);
+  return Array.from(classes).filter((cls) =>
+    [cls, ...reachable.get(cls)].some(hasGroups),
+  );
+}
+
+/**
+ * Variants of classes serialized with groups(`@SerializeOptions({ groups })`), named like `User_admin`
+ */
+export class GroupVariants {
+  private readonly variants = new Map<
+    string,
+    { groups: string[]; names: Map<ClassDeclaration, string> }
+  >();
+
+  /**
+   * Register variants of classes reachable from a type
+   * @returns Variant names of classes by the groups
+   */
+  add(type: Type<ts.Type>, groups: string[]): Map<ClassDeclaration, string> {
+    const suffix = getSuffix(groups);
+    if (!this.variants.has(suffix)) {
+      this.variants.set(suffix, { groups, names: new Map() });
+    }
+    const { names } = this.variants.get(suffix);
+    for (const cls of getGroupedClasses(type)) {
+      names.set(cls, `${cls.getName()}_${suffix}`);
+    }
+    return names;
+  }
+
+  /**
+   * Get variant names of classes by groups
+   */
+  get(groups: string[]): Map<ClassDeclaration, string> {
+    return this.variants.get(getSuffix(groups))?.names ?? new Map();
+  }
+
+  /**
+   * @returns Tuples of variant name, class and groups
+   */
+  *entries(): Iterable<[string, ClassDeclaration, string[]]> {
+    for (const { groups, names } of this.variants.values()) {
+      for (const [cls, name] of names) {
+        yield [name, cls, groups];
+      }
+    }
+  }
+}
+
+/**
+ * Replace class names in type text
+ */
+export function replaceNames(
+  text: string,
+  names: Map<ClassDeclaration, string>,
+): string {
+  for (const [cls, name] of names) {
+    text = text.replace(new RegExp(`\\b${cls.getName()}\\b`, 'g'), name);
+  }
+  return text;
+}
+
+function getSuffix(groups: string[]): string {
+  return groups.map((e) => e.replace(/\W/g, '_')).join('_');
+}
+
+function collectClasses(
+  type: Type<ts.Type>,
+  classes: Set<ClassDeclaration>,
+  visited: Set<Type<ts.Type>>,
+  reachable: Map<ClassDeclaration, Set<ClassDeclaration>>,
+): void {
+  if (visited.has(type)) {
+    return;
+  }
+  visited.add(type);
+  const cls = type
+    .getSymbol()
+    ?.getDeclarations()
+    .find((e): e is ClassDeclaration => Node.isClassDeclaration(e));
+  const types = [
+    ...type.getTypeArguments(),
+    ...type.getUnionTypes(),
+    ...type.getIntersectionTypes(),
+    ...(type.isTuple() ? type.getTupleElements() : []),
+  ];
+  if (type.isArray()) {
+    types.push(type.getArrayElementTypeOrThrow());
+  } else if (!cls && type.isObject() && !type.isTuple()) {
+    for (const prop of type.getProperties()) {
+      const decl = prop.getValueDeclaration();
+      if (decl) {
+        types.push(prop.getTypeAtLocation(decl));
+      }
+    }
+  }
+  if (cls && !reachable.has(cls)) {
+    const nested = new Set<ClassDeclaration>();
+    reachable.set(cls, nested);
+    for (const prop of cls.getType().getProperties()) {
+      const decl = prop.getValueDeclaration();
+      if (decl) {
+        collectClasses(
+          prop.getTypeAtLocation(decl),
+          nested,
+          new Set(),
+          reachable,
+        );
+      }
+    }
+    for (const e of Array.from(nested)) {
+      reachable.get(e)?.forEach((c) => nested.add(c));
+    }
+  }
+  if (cls) {
+    classes.add(cls);
+    reachable.get(cls).forEach((e) => classes.add(e));
+  }
+  for (const e of types) {
+    collectClasses(e, classes, visited, reachable);
+  }
+}
+
+function hasGroups(cls: ClassDeclaration): boolean {
+  return cls
+    .getMembers()
+    .some(
+      (member) =>
+        Node.isDecoratable(member) &&
+        getStrings(getOptions(member.getDecorator('Expose'))?.groups).length,
+    );
+}
+
+/**
+ * Get the type from `@Transform(fn)`(return type of `fn`) or `@Type(() => Class)`
+ */
+function getOverriddenType(
+  decl: PropertyDeclaration | GetAccessorDeclaration,
+): Pick<SerializedProperty, 'type' | 'array'> {
+  const transform = decl.getDecorator('Transform');
+  const [fn] = transform?.getArguments() ?? [];
+  if (
+    (Node.isArrowFunction(fn) || Node.isFunctionExpression(fn)) &&
+    !isTrue(getOptions(transform).toClassOnly)
+  ) {
+    return { type: fn.getReturnType() };
+  }
+  const [factory] = decl.getDecorator('Type')?.getArguments() ?? [];
+  const [signature] = Node.isArrowFunction(factory)
+    ? factory.getReturnType().getConstructSignatures()
+    : [];
+  if (signature) {
+    return {
+      type: signature.getReturnType(),
+      array: decl.getType().isArray(),
+    };
+  }
+  return {};
+}
+
+/**
+ * Get options of a decorator. Options are the last argument if it is an object literal
+ * @returns `undefined` if the decorator is absent
+ */
+function getOptions(
+  deco: Decorator | undefined,
+): Record<string, Node | undefined> | undefined {
+  if (!deco) {
+    return;
+  }
+  const options: Record<string, Node | undefined> = {};
+  const [last] = deco.getArguments().slice(-1);
+  if (Node.isObjectLiteralExpression(last)) {
+    for (const prop of last.getProperties()) {
+      if (Node.isPropertyAssignment(prop)) {
+        options[prop.getName()] = prop.getInitializer();
+      }
+    }
+  }
+  return options;
+}
+
+function isTrue(node: Node | undefined): boolean {
+  return node?.getText() === 'true';
+}
+
+function getStrings(node: Node | undefined): string[] {
+  if (!Node.isArrayLiteralExpression(node)) {
+    return [];
+  }
+  return node
+    .getElements()
+    .map((e) => evaluateString(e))
+    .filter((e): e is string => e !== undefined);
+}
@@ -0,0 +1,438 @@
+import {
+  ClassDeclaration,
+  InterfaceDeclaration,
+  Node,
+  SourceFile,
+  SyntaxKind,
+  ts,
+  Type,
+  TypeFormatFlags,
+  TypeNode,
+  WriterFunction,
+} from 'ts-morph';
+import { Config } from '../config';
+import { getSerializedProperties } from './serialization';
+
+/**
+ * Client side type of a server type
+ */
+export interface WireType {
+  text: string;
+  /**
+   * Return type of `toJSON()`, if the wire type is derived from it
+   */
+  type?: Type<ts.Type>;
+}
+
+interface Reviver {
+  statements: (string | WriterFunction)[];
+  /**
+   * Reviver functions called by this one
+   */
+  callees: string[];
+}
+
+/**
+ * Map server types to the types clients receive over JSON.
+ * Types with `toJSON()` are replaced by its return type(e.g. `Date` => `string`), `bigint` is replaced by `string`,
+ * and types configured by `wireTypes.types` are replaced by the configured text
+ */
+export class WireTypes {
+  private readonly json: boolean;
+  private readonly types: Record<string, string>;
+  private readonly revivers: Record<string, string>;
+  /**
+   * Names of reviver functions by type text and groups
+   */
+  private readonly reviverNames = new Map<string, string>();
+  /**
+   * Reviver functions to write by names
+   */
+  private readonly functions = new Map<string, Reviver>();
+
+  /**
+   * @param keep Names of types kept as they are, e.g. `Date` coerced by schemas
+   */
+  constructor(
+    config: Config.AxiosOutput.WireTypes | false | undefined,
+    private readonly keep: string[] = [],
+  ) {
+    this.json = config !== false;
+    this.types = (config && config.types) || {};
+    this.revivers = (config && config.revivers) || {};
+  }
+
+  /**
+   * Whether methods of interfaces are dropped and `toJSON()` of declarations is respected
+   */
+  get enabled(): boolean {
+    return this.json;
+  }
+
+  /**
+   * Get the wire type of a type
+   * @returns `undefined` if the type is not mapped
+   */
+  getWireType(type: Type<ts.Type>): WireType | undefined {
+    const names = getNames(type);
+    const name = names.find((e) => this.types[e] !== undefined);
+    if (name) {
+      return { text: this.types[name] };
+    }
+    if (
+      !this.json ||
+      names.some((e) => this.revivers[e] !== undefined || this.keep.includes(e))
+    ) {
+      return;
+    }
+    if (type.getFlags() & ts.TypeFlags.BigInt) {
+      return { text: 'string' };
+    }
+    // declarations in the project are written with their `toJSON()` types
+    const decl = type.getSymbol()?.getDeclarations()[0];
+    const src = decl?.getSourceFile();
+    if (!src || !(src.isDeclarationFile() || src.isInNodeModules())) {
+      return;
+    }
+    const returnType = getToJsonType(type, decl);
+    if (returnType) {
+      return { text: this.getText(returnType), type: returnType };
+    }
+  }
+
+  /**
+   * Print a type with wire types replaced. `import()` types are printed by their names
+   */
+  getText(type: Type<ts.Type>): string {
+    const wire = this.getWireType(type);
+    if (wire) {
+      return wire.text;
+    }
+    let text = type.getText(null, TypeFormatFlags.None);
+    for (const [sub, wire] of this.collect(type, new Set())) {
+      text = replaceType(
+        text,
+        sub.getText(null, TypeFormatFlags.None),
+        wrap(wire.text),
+      );
+    }
+    return text.replace(ImportTypePrefix, '');
+  }
+
+  /**
+   * Print a type node of a declaration with wire types replaced, and `import()` types by their names. Other parts are printed as written
+   */
+  printTypeNode(node: TypeNode | undefined): string | undefined {
+    if (!node) {
+      return;
+    }
+    const start = node.getStart();
+    let text = node.getText();
+    const edits: [number, number, string][] = [];
+    const visit = (e: Node) => {
+      if (
+        Node.isTypeReference(e) ||
+        Node.isImportTypeNode(e) ||
+        e.getKind() === SyntaxKind.BigIntKeyword
+      ) {
+        const wire = this.getWireType(e.getType());
+        if (wire) {
+          edits.push([e.getStart() - start, e.getEnd() - start, wire.text]);
+          return;
+        }
+      }
+      const qualifier =
+        Node.isImportTypeNode(e) &&
+        !e.compilerNode.isTypeOf &&
+        e.getQualifier();
+      if (qualifier) {
+        edits.push([e.getStart() - start, qualifier.getStart() - start, '']);
+      }
+      e.forEachChild(visit);
+    };
+    visit(node);
+    for (const [from, to, wire] of edits.reverse()) {
+      text = text.slice(0, from) + wrap(wire) + text.slice(to);
+    }
+    return text;
+  }
+
+  /**
+   * Get the return type of `toJSON()` of a declaration, which is written as a type alias of it
+   */
+  getJsonType(
+    decl: ClassDeclaration | InterfaceDeclaration,
+  ): Type<ts.Type> | undefined {
+    if (this.json) {
+      return decl.getMethod('toJSON')?.getReturnType();
+    }
+  }
+
+  /**
+   * Print the return type of `toJSON()` of a declaration with wire types replaced
+   */
+  getJsonText(
+    decl: ClassDeclaration | InterfaceDeclaration,
+  ): string | undefined {
+    const type = this.getJsonType(decl);
+    if (!type) {
+      return;
+    }
+    return (
+      this.printTypeNode(decl.getMethod('toJSON').getReturnTypeNode()) ??
+      this.getText(type)
+    );
+  }
+
+  /**
+   * Whether a type is revived by `wireTypes.revivers`
+   */
+  hasReviver(type: Type<ts.Type>): boolean {
+    return getNames(type).some((e) => this.revivers[e] !== undefined);
+  }
+
+  /**
+   * Get the name of the function reviving data of a type with `wireTypes.revivers`, e.g. `reviveUser`
+   * @param groups Serialization groups of the data
+   * @returns `undefined` if nothing is revived
+   */
+  getReviver(
+    type: Type<ts.Type>,
+    node: Node,
+    groups?: string[],
+  ): string | undefined {
+    if (!Object.keys(this.revivers).length) {
+      return;
+    }
+    return this.createReviver(type, node, groups, new Set());
+  }
+
+  /**
+   * Write a reviver function and the ones it calls to the file, unless written already
+   */
+  writeReviver(src: SourceFile, name: string): void {
+    if (src.getFunction(name)) {
+      return;
+    }
+    const { statements, callees } = this.functions.get(name);
+    src.addFunction({
+      name,
+      parameters: [{ name: 'value', type: 'any' }],
+      returnType: 'any',
+      statements,
+    });
+    for (const callee of callees) {
+      this.writeReviver(src, callee);
+    }
+  }
+
+  /**
+   * Get mapped types in a type. Declared types are not visited since they are written separately
+   */
+  private *collect(
+    type: Type<ts.Type>,
+    visited: Set<Type<ts.Type>>,
+  ): Iterable<[Type<ts.Type>, WireType]> {
+    if (visited.has(type)) {
+      return;
+    }
+    visited.add(type);
+    const wire = this.getWireType(type);
+    if (wire) {
+      yield [type, wire];
+      return;
+    }
+    const types = [
+      ...type.getTypeArguments(),
+      ...type.getAliasTypeArguments(),
+      ...type.getUnionTypes(),
+      ...type.getIntersectionTypes(),
+      ...(type.isTuple() ? type.getTupleElements() : []),
+    ];
+    if (type.isArray()) {
+      types.push(type.getArrayElementTypeOrThrow());
+    } else if (type.isAnonymous() && !type.getCallSignatures().length) {
+      for (const prop of type.getProperties()) {
+        const decl = prop.getValueDeclaration();
+        if (decl) {
+          types.push(prop.getTypeAtLocation(decl));
+        }
+      }
+    }
+    for (const e of types) {
+      yield* this.collect(e, visited);
+    }
+  }
+
+  /**
+   * @param visiting Types whose revivers are being created, which are referred by name
+   */
+  private createReviver(
+    type: Type<ts.Type>,
+    node: Node,
+    groups: string[] | undefined,
+    visiting: Set<string>,
+  ): string | undefined {
+    const name = getNames(type).find((e) => this.revivers[e] !== undefined);
+    if (name) {
+      return this.addFunction(`revive${toIdentifier(name)}`, {
+        statements: [
+          `return value == null ? value : (${this.revivers[name]})(value);`,
+        ],
+        callees: [],
+      });
+    }
+    if (type.isUnion() && !type.isBoolean()) {
+      // only nullable types can be revived
+      const members = type
+        .getUnionTypes()
+        .filter((e) => !e.isNull() && !e.isUndefined());
+      return members.length === 1
+        ? this.createReviver(members[0], node, groups, visiting)
+        : undefined;
+    }
+    if (type.isArray()) {
+      const item = this.createReviver(
+        type.getArrayElementTypeOrThrow(),
+        node,
+        groups,
+        visiting,
+      );
+      return item && this.addArrayFunction(item);
+    }
+    if (
+      !(type.isObject() || type.isIntersection()) ||
+      type.isTuple() ||
+      type.getCallSignatures().length
+    ) {
+      return;
+    }
+    const text = type
+      .getText(null, TypeFormatFlags.None)
+      .replace(/import\("[^"]*"\)\./g, '');
+    const key = `${text}:${groups ?? ''}`;
+    if (this.reviverNames.has(key)) {
+      return this.reviverNames.get(key);
+    }
+    const functionName = `revive${toIdentifier(text)}${
+      groups ? `_${groups.map(toIdentifier).join('_')}` : ''
+    }`;
+    if (visiting.has(key)) {
+      // recursive types are revived if other properties need reviving
+      return functionName;
+    }
+    visiting.add(key);
+    const revived: [string, string][] = [];
+    for (const [prop, serialized] of getSerializedProperties(type, groups)) {
+      const decl = prop.getValueDeclaration() ?? node;
+      const propType = serialized.type ?? prop.getTypeAtLocation(decl);
+      let reviver = this.createReviver(propType, node, groups, visiting);
+      if (reviver && serialized.type && serialized.array) {
+        reviver = this.addArrayFunction(reviver);
+      }
+      if (reviver) {
+        revived.push([`value[${JSON.stringify(serialized.name)}]`, reviver]);
+      }
+    }
+    const index = type.getStringIndexType();
+    const indexReviver =
+      index && this.createReviver(index, node, groups, visiting);
+    visiting.delete(key);
+    if (!revived.length && !indexReviver) {
+      return;
+    }
+    this.reviverNames.set(key, functionName);
+    return this.addFunction(functionName, {
+      statements: [
+        (writer) =>
+          writer.write('if (value != null)').block(() => {
+            for (const [access, reviver] of revived) {
+              writer.writeLine(`${access} = ${reviver}(${access});`);
+            }
+            if (indexReviver) {
+              writer
+                .write('for (const key of Object.keys(value))')
+                .block(() =>
+                  writer.writeLine(`value[key] = ${indexReviver}(value[key]);`),
+                );
+            }
+          }),
+        'return value;',
+      ],
+      callees: [
+        ...revived.map(([, reviver]) => reviver),
+        ...(indexReviver ? [indexReviver] : []),
+      ],
+    });
+  }
+
+  private addArrayFunction(item: string): string {
+    return this.addFunction(`${item}Array`, {
+      statements: [`return value == null ? value : value.map(${item});`],
+      callees: [item],
+    });
+  }
+
+  private addFunction(name: string, reviver: Reviver): string {
+    if (!this.functions.has(name)) {
+      this.functions.set(name, reviver);
+    }
+    return name;
+  }
+}
+
+const ImportTypePrefix = /import\("[^"]*"\)\./g;
+
+/**
+ * Names a type may be configured by, e.g. `ObjectId`, `Types.ObjectId`
+ */
+function getNames(type: Type<ts.Type>): string[] {
+  const text = type
+    .getText(null, TypeFormatFlags.None)
+    .replace(/^import\("[^"]*"\)\./, '');
+  return [
+    text,
+    type.getSymbol()?.getName(),
+    type.getAliasSymbol()?.getName(),
+  ].filter((e) => e && e !== '__type');
+}
+
+function getToJsonType(
+  type: Type<ts.Type>,
+  node: Node,
+): Type<ts.Type> | undefined {
+  const method = type.getProperty('toJSON');
+  const [signature] = method?.getTypeAtLocation(node).getCallSignatures() ?? [];
+  return signature?.getReturnType();
+}
+
+/**
+ * Replace a type in type text. Qualified names and `import()` types of it are replaced as well
+ */
+function replaceType(text: string, from: string, to: string): string {
+  const escaped = from
+    .replace(/^import\("[^"]*"\)\./, '')
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return text.replace(
+    new RegExp(
+      `(?<![\\w$.])(?:import\\("[^"]*"\\)\\.)?${escaped}(?![\\w$])`,
+      'g',
+    ),
+    to,
+  );
+}
+
+/**
+ * Parenthesize union, intersection and function types, which may be used as array elements
+ */
+function wrap(text: string): string {
+  return /^[^{(<]*[|&]|=>/.test(text) ? `(${text})` : text;
+}
+
+function toIdentifier(text: string): string {
+  return text
+    .split(/[^\w$]+/)
+    .filter((e) => e)
+    .map((e) => e.charAt(0).toUpperCase() + e.slice(1))
+    .join('');
+}
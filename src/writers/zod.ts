@@ -0,0 +1,540 @@
+import {
+  ClassDeclaration,
+  Decorator,
+  EnumDeclaration,
+  InterfaceDeclaration,
+  Node,
+  SourceFile,
+  Symbol,
+  ts,
+  Type,
+  TypeAliasDeclaration,
+  VariableDeclarationKind,
+} from 'ts-morph';
+import { evaluateString } from '../parsers/utils';
+import {
+  getSerializedProperties,
+  GroupVariants,
+  SerializedProperty,
+} from './serialization';
+import { WireTypes } from './wire';
+
+type TypeDeclaration =
+  | EnumDeclaration
+  | InterfaceDeclaration
+  | ClassDeclaration
+  | TypeAliasDeclaration;
+
+type SchemaKind = 'string' | 'number' | 'array' | 'other';
+
+interface Schema {
+  text: string;
+  kind: SchemaKind;
+}
+
+interface Refinement {
+  kinds: SchemaKind[];
+  /**
+   * @returns `undefined` if arguments cannot be evaluated statically
+   */
+  apply(args: Node[]): string | undefined;
+}
+
+const numberArg = (method: string) => (args: Node[]) => {
+  const value = evaluateString(args[0]);
+  if (value !== undefined && value !== '' && !isNaN(+value)) {
+    return `.${method}(${value})`;
+  }
+};
+
+/**
+ * class-validator decorators and their zod counterparts
+ */
+const Refinements: Record<string, Refinement> = {
+  IsEmail: { kinds: ['string'], apply: () => '.email()' },
+  IsUrl: { kinds: ['string'], apply: () => '.url()' },
+  IsUUID: { kinds: ['string'], apply: () => '.uuid()' },
+  IsNotEmpty: { kinds: ['string', 'array'], apply: () => '.min(1)' },
+  IsInt: { kinds: ['number'], apply: () => '.int()' },
+  IsPositive: { kinds: ['number'], apply: () => '.positive()' },
+  IsNegative: { kinds: ['number'], apply: () => '.negative()' },
+  Min: { kinds: ['number'], apply: numberArg('min') },
+  Max: { kinds: ['number'], apply: numberArg('max') },
+  MinLength: { kinds: ['string'], apply: numberArg('min') },
+  MaxLength: { kinds: ['string'], apply: numberArg('max') },
+  ArrayMinSize: { kinds: ['array'], apply: numberArg('min') },
+  ArrayMaxSize: { kinds: ['array'], apply: numberArg('max') },
+  ArrayNotEmpty: { kinds: ['array'], apply: () => '.nonempty()' },
+  Length: {
+    kinds: ['string'],
+    apply: (args) =>
+      [numberArg('min')(args), numberArg('max')(args.slice(1))].join(''),
+  },
+  Matches: {
+    kinds: ['string'],
+    apply: ([pattern]) => {
+      if (Node.isRegularExpressionLiteral(pattern)) {
+        return `.regex(${pattern.getText()})`;
+      }
+      const value = evaluateString(pattern);
+      if (value !== undefined) {
+        return `.regex(new RegExp(${JSON.stringify(value)}))`;
+      }
+    },
+  },
+};
+
+/**
+ * Build zod schemas from type declarations. Each non-generic declaration gets an exported `<Name>Schema`,
+ * and references between declarations are resolved lazily so that declaration order and recursion do not matter
+ */
+export class ZodSchemaBuilder {
+  private readonly names = new Map<Node, string>();
+  /**
+   * Anonymous types being inlined, to stop at recursive generic instances
+   */
+  private readonly inlining = new Set<Type<ts.Type>>();
+  /**
+   * Serialization groups of the schema being built
+   */
+  private groups?: string[];
+
+  constructor(
+    private readonly types: TypeDeclaration[],
+    private readonly variants?: GroupVariants,
+    private readonly wire?: WireTypes,
+  ) {
+    for (const type of types) {
+      if (!Node.isTypeParametered(type) || !type.getTypeParameters().length) {
+        this.names.set(type, type.getName() + 'Schema');
+      }
+    }
+  }
+
+  /**
+   * Write schemas of all declarations
+   * @returns Names of written schemas
+   */
+  *write(src: SourceFile): Iterable<string> {
+    const written = new Set<string>();
+    // enum schemas are referred directly, so they are written first
+    const [enums, others] = partition(this.types, (e) =>
+      Node.isEnumDeclaration(e),
+    );
+    for (const type of [...enums, ...others]) {
+      const name = this.names.get(type);
+      if (!name || written.has(name)) {
+        continue;
+      }
+      written.add(name);
+      // declarations with `toJSON()` are sent as its return type
+      const json =
+        (Node.isClassDeclaration(type) || Node.isInterfaceDeclaration(type)) &&
+        this.wire?.getJsonType(type);
+      const initializer = Node.isEnumDeclaration(type)
+        ? `z.nativeEnum(${type.getName()})`
+        : `${this.getSchema(
+            json || type.getType(),
+            type,
+            type,
+          )} as z.ZodType<${type.getName()}>`;
+      src.addVariableStatement({
+        declarationKind: VariableDeclarationKind.Const,
+        isExported: true,
+        declarations: [{ name, initializer }],
+      });
+      yield name;
+    }
+    for (const [name, cls, groups] of this.variants?.entries() ?? []) {
+      if (cls.getTypeParameters().length) {
+        continue;
+      }
+      this.groups = groups;
+      const initializer = `${this.getSchema(
+        cls.getType(),
+        cls,
+        cls,
+      )} as z.ZodType<${name}>`;
+      this.groups = undefined;
+      src.addVariableStatement({
+        declarationKind: VariableDeclarationKind.Const,
+        isExported: true,
+        declarations: [{ name: name + 'Schema', initializer }],
+      });
+      yield name + 'Schema';
+    }
+  }
+
+  /**
+   * Get the schema expression of a type, e.g. `z.array(z.lazy(() => UserSchema))`
+   * @param node Node where the type is used
+   * @param root Declaration being written, which must not refer to itself
+   */
+  getSchema(type: Type<ts.Type>, node: Node, root?: Node): string {
+    const { text, nullable, optional } = this.getNullableSchema(
+      type,
+      node,
+      root,
+    );
+    return (
+      text + (nullable ? '.nullable()' : '') + (optional ? '.optional()' : '')
+    );
+  }
+
+  /**
+   * Get the schema expression of a response type. Declared types are referred directly
+   * @param groups Serialization groups of the response
+   */
+  getResponseSchema(
+    type: Type<ts.Type>,
+    node: Node,
+    groups?: string[],
+  ): string {
+    this.groups = groups;
+    try {
+      return this.getReference(type) ?? this.getSchema(type, node);
+    } finally {
+      this.groups = undefined;
+    }
+  }
+
+  protected getNullableSchema(
+    type: Type<ts.Type>,
+    node: Node,
+    root?: Node,
+  ): Schema & { nullable: boolean; optional: boolean } {
+    let nullable = false;
+    let optional = false;
+    if (type.isUnion() && !type.isBoolean() && !this.getEnumName(type)) {
+      const members = type.getUnionTypes().filter((e) => {
+        if (e.isNull()) {
+          nullable = true;
+          return false;
+        }
+        if (e.isUndefined()) {
+          optional = true;
+          return false;
+        }
+        return true;
+      });
+      if (nullable || optional) {
+        // members of nullable enums are referred by the enum
+        const nonNullable = type.getNonNullableType();
+        const schema = this.getEnumName(nonNullable)
+          ? this.getBaseSchema(nonNullable, node, root)
+          : this.getUnionSchema(members, node, root);
+        return { ...schema, nullable, optional };
+      }
+    }
+    return { ...this.getBaseSchema(type, node, root), nullable, optional };
+  }
+
+  protected getBaseSchema(
+    type: Type<ts.Type>,
+    node: Node,
+    root?: Node,
+  ): Schema {
+    const flags = type.getFlags();
+    if (type.isAny() || flags & ts.TypeFlags.TypeParameter) {
+      return { text: 'z.any()', kind: 'other' };
+    }
+    if (type.isUnknown()) {
+      return { text: 'z.unknown()', kind: 'other' };
+    }
+    if (flags & (ts.TypeFlags.Void | ts.TypeFlags.Undefined)) {
+      return { text: 'z.undefined()', kind: 'other' };
+    }
+    if (type.isNull()) {
+      return { text: 'z.null()', kind: 'other' };
+    }
+    if (flags & ts.TypeFlags.Never) {
+      return { text: 'z.never()', kind: 'other' };
+    }
+    const enumName = this.getEnumName(type);
+    if (enumName) {
+      return { text: enumName, kind: 'other' };
+    }
+    const wire = this.wire?.getWireType(type);
+    if (wire) {
+      return wire.type
+        ? this.getBaseSchema(wire.type, node, root)
+        : getScalarSchema(wire.text);
+    }
+    if (type.isString()) {
+      return { text: 'z.string()', kind: 'string' };
+    }
+    if (type.isNumber()) {
+      return { text: 'z.number()', kind: 'number' };
+    }
+    if (type.isBoolean()) {
+      return { text: 'z.boolean()', kind: 'other' };
+    }
+    if (flags & ts.TypeFlags.BigInt) {
+      return { text: 'z.bigint()', kind: 'other' };
+    }
+    if (type.isStringLiteral() || type.isNumberLiteral()) {
+      return {
+        text: `z.literal(${JSON.stringify(type.getLiteralValue())})`,
+        kind: 'other',
+      };
+    }
+    if (type.isBooleanLiteral()) {
+      return { text: `z.literal(${type.getText()})`, kind: 'other' };
+    }
+    if (type.isUnion()) {
+      return this.getUnionSchema(type.getUnionTypes(), node, root);
+    }
+    if (type.isArray()) {
+      return {
+        text: `z.array(${this.getSchema(
+          type.getArrayElementTypeOrThrow(),
+          node,
+        )})`,
+        kind: 'array',
+      };
+    }
+    if (type.isTuple()) {
+      return {
+        text: `z.tuple([${type
+          .getTupleElements()
+          .map((e) => this.getSchema(e, node))
+          .join(', ')}])`,
+        kind: 'other',
+      };
+    }
+    const ref = this.getReference(type, root);
+    if (ref) {
+      return { text: `z.lazy(() => ${ref})`, kind: 'other' };
+    }
+    if (this.wire?.hasReviver(type)) {
+      // validated by the reviver
+      return { text: 'z.any()', kind: 'other' };
+    }
+    if (type.getSymbol()?.getName() === 'Date') {
+      // dates are sent as strings
+      return { text: 'z.coerce.date()', kind: 'other' };
+    }
+    if (type.getCallSignatures().length) {
+      return { text: 'z.any()', kind: 'other' };
+    }
+    if (type.isObject() || type.isIntersection()) {
+      return { text: this.getObjectSchema(type, node), kind: 'other' };
+    }
+    return { text: 'z.any()', kind: 'other' };
+  }
+
+  protected getUnionSchema(
+    members: Type<ts.Type>[],
+    node: Node,
+    root?: Node,
+  ): Schema {
+    // `true | false` is written as `boolean`
+    const hasTrue = members.some((e) => e.getText() === 'true');
+    const hasFalse = members.some((e) => e.getText() === 'false');
+    const schemas: Schema[] = [];
+    if (hasTrue && hasFalse) {
+      schemas.push({ text: 'z.boolean()', kind: 'other' });
+      members = members.filter((e) => !e.isBooleanLiteral());
+    }
+    for (const member of members) {
+      schemas.push(this.getBaseSchema(member, node, root));
+    }
+    if (schemas.length === 1) {
+      return schemas[0];
+    }
+    return {
+      text: `z.union([${schemas.map((e) => e.text).join(', ')}])`,
+      kind: 'other',
+    };
+  }
+
+  protected getObjectSchema(type: Type<ts.Type>, node: Node): string {
+    if (this.inlining.has(type)) {
+      return 'z.any()';
+    }
+    this.inlining.add(type);
+    try {
+      const props = getSerializedProperties(type, this.groups).map(
+        ([prop, serialized]) => {
+          const key = /^[A-Za-z_$][\w$]*$/.test(serialized.name)
+            ? serialized.name
+            : JSON.stringify(serialized.name);
+          return `${key}: ${this.getPropertySchema(prop, node, serialized)}`;
+        },
+      );
+      let text = `z.object({ ${props.join(', ')} })`;
+      const index = type.getStringIndexType() ?? type.getNumberIndexType();
+      if (index) {
+        const value = this.getSchema(index, node);
+        text = props.length
+          ? `${text}.catchall(${value})`
+          : `z.record(${value})`;
+      }
+      return text;
+    } finally {
+      this.inlining.delete(type);
+    }
+  }
+
+  protected getPropertySchema(
+    prop: Symbol,
+    node: Node,
+    serialized: SerializedProperty,
+  ): string {
+    const decl = prop.getValueDeclaration() ?? node;
+    const optional = prop.hasFlags(ts.SymbolFlags.Optional);
+    if (serialized.type) {
+      // class-validator decorators validate values before transformation
+      const text = this.getSchema(serialized.type, decl);
+      return (
+        (serialized.array ? `z.array(${text})` : text) +
+        (optional ? '.optional()' : '')
+      );
+    }
+    const type = prop.getTypeAtLocation(decl);
+    const decorators = Node.isPropertyDeclaration(decl)
+      ? decl.getDecorators()
+      : [];
+    const schema = this.getNullableSchema(type, decl);
+    if (optional) {
+      schema.optional = true;
+    }
+    const [each, self] = partition(decorators, isEach);
+    if (type.isArray() && each.length) {
+      const element = this.getNullableSchema(
+        type.getArrayElementTypeOrThrow(),
+        decl,
+      );
+      schema.text = `z.array(${this.refine(element, each)}${
+        element.nullable ? '.nullable()' : ''
+      })`;
+    }
+    let text = this.refine(schema, self);
+    for (const decorator of self) {
+      if (decorator.getName() === 'IsOptional') {
+        schema.optional = true;
+      }
+    }
+    if (schema.nullable) {
+      text += '.nullable()';
+    }
+    if (schema.optional) {
+      text += '.optional()';
+    }
+    return text;
+  }
+
+  /**
+   * Append refinements from class-validator decorators
+   */
+  protected refine(schema: Schema, decorators: Decorator[]): string {
+    let text = schema.text;
+    for (const decorator of decorators) {
+      const name = decorator.getName();
+      if (name === 'IsEnum') {
+        const [arg] = decorator.getArguments();
+        const ref = arg && this.getReference(arg.getType());
+        if (ref) {
+          text = ref;
+        }
+        continue;
+      }
+      const refinement = Refinements[name];
+      if (refinement && refinement.kinds.includes(schema.kind)) {
+        text += refinement.apply(decorator.getArguments()) ?? '';
+      }
+    }
+    return text;
+  }
+
+  /**
+   * Get the schema name of a declared type
+   */
+  protected getReference(type: Type<ts.Type>, root?: Node): string | undefined {
+    for (const symbol of [type.getAliasSymbol(), type.getSymbol()]) {
+      if (!symbol) {
+        continue;
+      }
+      for (const decl of symbol.getDeclarations()) {
+        const name = this.getName(decl);
+        if (name && name !== this.getName(root)) {
+          return name;
+        }
+      }
+      if (symbol === type.getAliasSymbol()) {
+        // instances of generic aliases are inlined
+        break;
+      }
+    }
+  }
+
+  /**
+   * Get the schema name of a declaration. Classes with variants for current groups refer to the variants
+   */
+  protected getName(node: Node | undefined): string | undefined {
+    const variant =
+      this.groups && Node.isClassDeclaration(node)
+        ? this.variants?.get(this.groups).get(node)
+        : undefined;
+    return variant ? variant + 'Schema' : this.names.get(node);
+  }
+
+  /**
+   * Get the schema name of an enum(or a union of all its members)
+   */
+  protected getEnumName(type: Type<ts.Type>): string | undefined {
+    if (type.isEnum()) {
+      return this.getReference(type);
+    }
+    if (!type.isUnion()) {
+      return;
+    }
+    const [first] = type.getUnionTypes();
+    const decl = first.isEnumLiteral()
+      ? first.getSymbol()?.getValueDeclaration()?.getParent()
+      : undefined;
+    if (
+      Node.isEnumDeclaration(decl) &&
+      type.getUnionTypes().length === decl.getMembers().length &&
+      type
+        .getUnionTypes()
+        .every(
+          (e) => e.getSymbol()?.getValueDeclaration()?.getParent() === decl,
+        )
+    ) {
+      return this.names.get(decl);
+    }
+  }
+}
+
+/**
+ * Get the schema of a configured wire type. Types other than primitives are not validated
+ */
+function getScalarSchema(text: string): Schema {
+  switch (text) {
+    case 'string':
+      return { text: 'z.string()', kind: 'string' };
+    case 'number':
+      return { text: 'z.number()', kind: 'number' };
+    case 'boolean':
+      return { text: 'z.boolean()', kind: 'other' };
+    default:
+      return { text: 'z.any()', kind: 'other' };
+  }
+}
+
+function isEach(decorator: Decorator): boolean {
+  const [options] = decorator.getArguments().slice(-1);
+  if (!Node.isObjectLiteralExpression(options)) {
+    return false;
+  }
+  const each = options.getProperty('each');
+  return (
+    Node.isPropertyAssignment(each) &&
+    each.getInitializer()?.getText() === 'true'
+  );
+}
+
+function partition<T>(items: T[], predicate: (item: T) => boolean): [T[], T[]] {
+  return [items.filter(predicate), items.filter((e) => !predicate(e))];
+}